@@ -0,0 +1,84 @@
+import * as vscode from 'vscode';
+
+/**
+ * Confirm mode: a status bar countdown before an accept, with Cancel and Always skip buttons.
+ * Only one countdown runs at a time.
+ */
+
+/** 'stopped': autopilot was switched off, which is no verdict on the accept */
+export type CountdownResult = 'accept' | 'cancel' | 'skip' | 'stopped';
+
+export class AcceptCountdown implements vscode.Disposable {
+    private readonly countdownItem: vscode.StatusBarItem;
+    private readonly skipItem: vscode.StatusBarItem;
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private settle: ((result: CountdownResult) => void) | null = null;
+
+    /**
+     * `cancelCommand` and `skipCommand` must call cancel() and skip().
+     */
+    constructor(cancelCommand: string, skipCommand: string) {
+        // Left of the autopilot item (priority 100)
+        this.countdownItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99);
+        this.countdownItem.command = cancelCommand;
+        this.countdownItem.tooltip = 'Click to cancel this accept';
+        this.countdownItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+        this.skipItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 98);
+        this.skipItem.command = skipCommand;
+        this.skipItem.text = '$(circle-slash) Always skip this';
+        this.skipItem.tooltip = 'Cancel, and never accept this button here again (saves a deny rule)';
+    }
+
+    get active(): boolean {
+        return this.settle !== null;
+    }
+
+    /**
+     * Counts down from `seconds` and resolves with 'accept' unless cancelled or skipped first.
+     * `canSkip` shows the Always skip button.
+     */
+    run(label: string, seconds: number, canSkip: boolean): Promise<CountdownResult> {
+        this.finish('stopped');
+        let left = Math.max(1, Math.round(seconds));
+        const render = () => this.countdownItem.text = `$(watch) Accepting ${label} in ${left}s — Cancel`;
+        render();
+        this.countdownItem.show();
+        if (canSkip) this.skipItem.show();
+
+        return new Promise(resolve => {
+            this.settle = resolve;
+            this.timer = setInterval(() => {
+                if (--left <= 0) return this.finish('accept');
+                render();
+            }, 1000);
+        });
+    }
+
+    cancel() {
+        this.finish('cancel');
+    }
+
+    skip() {
+        this.finish('skip');
+    }
+
+    stop() {
+        this.finish('stopped');
+    }
+
+    dispose() {
+        this.finish('stopped');
+        this.countdownItem.dispose();
+        this.skipItem.dispose();
+    }
+
+    private finish(result: CountdownResult) {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+        this.countdownItem.hide();
+        this.skipItem.hide();
+        const settle = this.settle;
+        this.settle = null;
+        settle?.(result);
+    }
+}
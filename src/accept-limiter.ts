@@ -0,0 +1,125 @@
+import { CandidateDetails } from './scan-script';
+
+/**
+ * Accept rate limits and the runaway-loop circuit breaker.
+ * An agent stuck in a loop produces the same "Accept" over and over; once a limit is hit the
+ * breaker trips and stays tripped until reset, so the caller can switch autopilot off.
+ */
+
+export interface LimitsConfig {
+    enabled: boolean;
+    /** Accepts per source (CDP target or native mode) within one minute, 0 for no limit */
+    maxPerMinute: number;
+    /** Accepts of the same element signature within one cooldown window, 0 for no limit */
+    maxPerElement: number;
+    /** Length of the element window; its count resets when the window ends */
+    cooldownSeconds: number;
+}
+
+export interface LimitViolation {
+    limit: 'perMinute' | 'perElement';
+    source: string;
+    signature: string;
+    count: number;
+    message: string;
+}
+
+export const DEFAULT_LIMITS: LimitsConfig = {
+    enabled: true,
+    maxPerMinute: 20,
+    maxPerElement: 15,
+    cooldownSeconds: 60
+};
+
+const MINUTE_MS = 60000;
+
+/**
+ * Identifies "the same button" across scans: the rule that matched plus what the element shows.
+ */
+export function elementSignature(info: CandidateDetails): string {
+    return [info.ruleId, info.tagName, info.text, info.label, info.title, info.command || ''].join('|');
+}
+
+export class AcceptLimiter {
+    // Source -> accept times within the last minute
+    private recent: Map<string, number[]> = new Map();
+    // Signature -> accepts in the current cooldown window
+    private elements: Map<string, { count: number; windowStart: number }> = new Map();
+    private violation: LimitViolation | null = null;
+
+    constructor(private config: LimitsConfig) { }
+
+    configure(config: LimitsConfig) {
+        this.config = config;
+    }
+
+    get tripped(): LimitViolation | null {
+        return this.violation;
+    }
+
+    /**
+     * Returns the violation if one more accept from this source on this element would exceed
+     * a limit, and trips the breaker. Returns null if the accept may go ahead.
+     */
+    check(source: string, signature: string, now: number = Date.now()): LimitViolation | null {
+        if (this.violation) return this.violation;
+        if (!this.config.enabled) return null;
+
+        const { maxPerMinute, maxPerElement, cooldownSeconds } = this.config;
+        const recent = this.recentFor(source, now);
+        if (maxPerMinute > 0 && recent.length >= maxPerMinute) {
+            return this.trip({
+                limit: 'perMinute', source, signature, count: recent.length,
+                message: `${recent.length} accepts in the last minute from "${source}" (limit ${maxPerMinute})`
+            });
+        }
+
+        const element = this.elementFor(signature, now);
+        if (maxPerElement > 0 && element && element.count >= maxPerElement) {
+            return this.trip({
+                limit: 'perElement', source, signature, count: element.count,
+                message: `the same element was accepted ${element.count} times within ${cooldownSeconds}s in "${source}" (limit ${maxPerElement})`
+            });
+        }
+        return null;
+    }
+
+    /**
+     * Counts an accept that went through.
+     */
+    record(source: string, signature: string, now: number = Date.now()) {
+        this.recentFor(source, now).push(now);
+        const element = this.elementFor(signature, now);
+        if (element) element.count++;
+        else this.elements.set(signature, { count: 1, windowStart: now });
+    }
+
+    /**
+     * Clears the breaker and all counts.
+     */
+    reset() {
+        this.violation = null;
+        this.recent.clear();
+        this.elements.clear();
+    }
+
+    private trip(violation: LimitViolation): LimitViolation {
+        this.violation = violation;
+        return violation;
+    }
+
+    private recentFor(source: string, now: number): number[] {
+        const times = (this.recent.get(source) || []).filter(t => now - t < MINUTE_MS);
+        this.recent.set(source, times);
+        return times;
+    }
+
+    private elementFor(signature: string, now: number) {
+        const element = this.elements.get(signature);
+        if (element && now - element.windowStart >= this.config.cooldownSeconds * 1000) {
+            this.elements.delete(signature);
+            return undefined;
+        }
+        return element;
+    }
+}
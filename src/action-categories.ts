@@ -0,0 +1,184 @@
+import { ACTION_CATEGORIES, ActionCategory, ClickRule, CompiledRule, compileRule } from './rules';
+
+/**
+ * Action categories beyond accepting edits: Continue, Retry, Allow (one tool call) and
+ * "Keep going" / "Run N more steps" prompts that stall unattended agent sessions. Each category
+ * can be switched on separately, adds its own keywords and selectors to the built-in rules,
+ * and has an hourly limit.
+ */
+
+export interface CategorySettings {
+    enabled: boolean;
+    /** Extra button texts (exact, case-insensitive, matched on text, aria-label or title) */
+    keywords: string[];
+    /** Extra CSS selectors for the category's buttons */
+    selectors: string[];
+    /** Clicks per hour, 0 for no limit */
+    maxPerHour: number;
+}
+
+export type CategoryConfig = Record<ActionCategory, CategorySettings>;
+
+/** Score of the rules made from `keywords` and `selectors` */
+export const CUSTOM_ACTION_SCORE = 70;
+
+export const DEFAULT_CATEGORY_CONFIG: CategoryConfig = {
+    accept: { enabled: true, keywords: [], selectors: [], maxPerHour: 0 },
+    continue: { enabled: false, keywords: [], selectors: [], maxPerHour: 30 },
+    retry: { enabled: false, keywords: [], selectors: [], maxPerHour: 10 },
+    allow: { enabled: false, keywords: [], selectors: [], maxPerHour: 30 },
+    keepGoing: { enabled: false, keywords: [], selectors: [], maxPerHour: 10 }
+};
+
+/**
+ * Built-in rules of the categories beyond `accept` (whose rules are BUILTIN_RULES), used while
+ * the category is enabled. Scores stay below the accept rules, so a pending edit is accepted first.
+ */
+export const BUILTIN_CATEGORY_RULES: Record<ActionCategory, ClickRule[]> = {
+    accept: [],
+    continue: [
+        { id: 'builtin.continue.text', category: 'continue', anyText: { equals: ['continue', 'continue generating', 'continue response'] }, score: 72 }
+    ],
+    retry: [
+        { id: 'builtin.retry.text', category: 'retry', anyText: { equals: ['retry', 'try again', 'retry request'] }, score: 66 }
+    ],
+    allow: [
+        { id: 'builtin.allow.text', category: 'allow', anyText: { equals: ['allow', 'allow once', 'allow tool call', 'allow this tool call'] }, score: 78 },
+        // One tool call at a time: never grant a standing permission
+        { id: 'builtin.deny.allow-permanently', effect: 'deny', category: 'allow', anyText: { contains: ['always', 'all tools', 'this session', 'workspace'] } }
+    ],
+    keepGoing: [
+        {
+            id: 'builtin.keep-going.text',
+            category: 'keepGoing',
+            anyText: { equals: ['keep going', 'continue iterating'], regex: '^(run|continue|allow) \\d+ more (steps?|iterations?|requests?|tool calls?)$' },
+            score: 72
+        }
+    ]
+};
+
+function stringList(value: unknown, where: string, errors: string[]): string[] {
+    if (value === undefined) return [];
+    if (!Array.isArray(value) || !value.every(v => typeof v === 'string')) {
+        errors.push(`${where} must be an array of strings`);
+        return [];
+    }
+    return value.map(v => v.trim()).filter(v => v);
+}
+
+/**
+ * Reads `kayorama.actions`. Invalid entries are reported in `errors` and fall back to the defaults.
+ */
+export function parseCategoryConfig(raw: unknown, errors: string[]): CategoryConfig {
+    const config = {} as CategoryConfig;
+    const settings = typeof raw === 'object' && raw !== null && !Array.isArray(raw) ? raw as Record<string, unknown> : {};
+    if (raw !== undefined && raw !== null && settings !== raw) errors.push('kayorama.actions must be an object');
+    for (const key of Object.keys(settings)) {
+        if (!ACTION_CATEGORIES.includes(key as ActionCategory)) errors.push(`actions.${key}: unknown category (expected ${ACTION_CATEGORIES.join(', ')})`);
+    }
+
+    for (const category of ACTION_CATEGORIES) {
+        const defaults = DEFAULT_CATEGORY_CONFIG[category];
+        const entry = settings[category];
+        if (entry === undefined || entry === null) {
+            config[category] = defaults;
+            continue;
+        }
+        if (typeof entry !== 'object' || Array.isArray(entry)) {
+            errors.push(`actions.${category} must be an object`);
+            config[category] = defaults;
+            continue;
+        }
+        const { enabled, keywords, selectors, maxPerHour } = entry as Record<string, unknown>;
+        const where = `actions.${category}`;
+        if (enabled !== undefined && typeof enabled !== 'boolean') errors.push(`${where}.enabled must be a boolean`);
+        if (maxPerHour !== undefined && !(typeof maxPerHour === 'number' && maxPerHour >= 0)) errors.push(`${where}.maxPerHour must be a number of at least 0`);
+        config[category] = {
+            enabled: typeof enabled === 'boolean' ? enabled : defaults.enabled,
+            keywords: stringList(keywords, `${where}.keywords`, errors),
+            selectors: stringList(selectors, `${where}.selectors`, errors),
+            maxPerHour: typeof maxPerHour === 'number' && maxPerHour >= 0 ? maxPerHour : defaults.maxPerHour
+        };
+    }
+    return config;
+}
+
+/**
+ * Compiles the built-in rules, keywords and selectors of the enabled categories.
+ */
+export function categoryRules(config: CategoryConfig, errors: string[]): CompiledRule[] {
+    const rules: CompiledRule[] = [];
+    for (const category of ACTION_CATEGORIES) {
+        const { enabled, keywords, selectors } = config[category];
+        if (!enabled) continue;
+        const raw: unknown[] = BUILTIN_CATEGORY_RULES[category].slice();
+        if (keywords.length > 0) raw.push({ id: `actions.${category}.keywords`, category, anyText: { equals: keywords }, score: CUSTOM_ACTION_SCORE });
+        selectors.forEach((selector, i) => raw.push({ id: `actions.${category}.selectors[${i}]`, category, selector, score: CUSTOM_ACTION_SCORE }));
+        for (const r of raw) {
+            const compiled = compileRule(r, `actions.${category}`, errors);
+            if (compiled) rules.push(compiled);
+        }
+    }
+    return rules;
+}
+
+/**
+ * Drops the allow rules of disabled categories and of the `held` ones (at their hourly limit),
+ * so their buttons don't outrank other candidates. Deny rules are kept.
+ */
+export function enabledRules(rules: CompiledRule[], config: CategoryConfig, held: ActionCategory[] = []): CompiledRule[] {
+    return rules.filter(r => r.effect === 'deny' || (config[r.category || 'accept'].enabled && !held.includes(r.category || 'accept')));
+}
+
+const HOUR_MS = 3600000;
+
+/**
+ * Counts clicks per category over the last hour against `maxPerHour`. Unlike the accept limits,
+ * reaching a category limit only holds back that category; it does not trip the breaker.
+ */
+export class CategoryLimiter {
+    private clicks: Map<ActionCategory, number[]> = new Map();
+
+    constructor(private config: CategoryConfig) { }
+
+    configure(config: CategoryConfig) {
+        this.config = config;
+    }
+
+    /**
+     * Returns true if one more click of this category stays within its limit.
+     */
+    allows(category: ActionCategory, now: number = Date.now()): boolean {
+        const max = this.config[category].maxPerHour;
+        return max <= 0 || this.recent(category, now).length < max;
+    }
+
+    record(category: ActionCategory, now: number = Date.now()) {
+        this.recent(category, now).push(now);
+    }
+
+    /**
+     * The categories that have reached their limit.
+     */
+    held(now: number = Date.now()): ActionCategory[] {
+        return ACTION_CATEGORIES.filter(c => !this.allows(c, now));
+    }
+
+    /**
+     * When the first held category gets a click back, or null if none is held.
+     */
+    nextRelease(now: number = Date.now()): number | null {
+        const times = this.held(now).map(c => {
+            const recent = this.recent(c, now);
+            // Free again once only maxPerHour - 1 clicks are left in the window (the limit may have been lowered)
+            return recent[recent.length - this.config[c].maxPerHour] + HOUR_MS;
+        });
+        return times.length > 0 ? Math.min(...times) : null;
+    }
+
+    private recent(category: ActionCategory, now: number): number[] {
+        const times = (this.clicks.get(category) || []).filter(t => now - t < HOUR_MS);
+        this.clicks.set(category, times);
+        return times;
+    }
+}
@@ -0,0 +1,96 @@
+import * as vscode from 'vscode';
+
+/**
+ * Watches for a person working in this window, so autopilot holds off until they have been
+ * idle for a while instead of committing ghost text mid-word or clicking while they read a diff.
+ * Only events in a focused window count; edits and cursor moves made by autopilot's own
+ * commands are ignored (see ownAction).
+ */
+
+export type ActivityKind = 'typing' | 'selecting' | 'scrolling' | 'focus' | 'terminal';
+
+// Edits and selection events from a command can arrive just after it resolves
+const OWN_ACTION_GRACE_MS = 300;
+
+export class ActivityMonitor {
+    private lastActivity = 0;
+    private lastKind: ActivityKind | null = null;
+    private ownActions = 0;
+    private ownActionEnded = 0;
+
+    constructor(private idle: number) { }
+
+    configure(idleMs: number) {
+        this.idle = idleMs;
+    }
+
+    get idleMs(): number {
+        return this.idle;
+    }
+
+    get enabled(): boolean {
+        return this.idle > 0;
+    }
+
+    /**
+     * Starts listening. Dispose the returned disposables to stop.
+     */
+    activate(): vscode.Disposable[] {
+        return [
+            vscode.workspace.onDidChangeTextDocument(e => {
+                const editor = vscode.window.activeTextEditor;
+                if (e.contentChanges.length === 0 || editor?.document !== e.document) return;
+                // Agents edit anywhere in the file; a person types where the cursor is
+                const atCursor = e.contentChanges.every(change =>
+                    editor.selections.some(sel => Math.abs(sel.active.line - change.range.start.line) <= 1));
+                if (atCursor) this.record('typing');
+            }),
+            vscode.window.onDidChangeTextEditorSelection(e => {
+                if (e.kind === vscode.TextEditorSelectionChangeKind.Keyboard || e.kind === vscode.TextEditorSelectionChangeKind.Mouse) {
+                    this.record('selecting');
+                }
+            }),
+            vscode.window.onDidChangeTextEditorVisibleRanges(e => {
+                if (e.textEditor === vscode.window.activeTextEditor) this.record('scrolling');
+            }),
+            vscode.window.onDidChangeWindowState(state => {
+                if (state.focused) this.record('focus');
+            }),
+            vscode.window.onDidChangeActiveTerminal(terminal => {
+                if (terminal) this.record('terminal');
+            }),
+            // Fires when the user first types into a terminal
+            vscode.window.onDidChangeTerminalState(terminal => {
+                if (terminal.state.isInteractedWith) this.record('terminal');
+            })
+        ];
+    }
+
+    record(kind: ActivityKind) {
+        if (!vscode.window.state.focused) return;
+        if (this.ownActions > 0 || Date.now() - this.ownActionEnded < OWN_ACTION_GRACE_MS) return;
+        this.lastActivity = Date.now();
+        this.lastKind = kind;
+    }
+
+    /**
+     * Runs one of autopilot's own actions without counting its edits as user activity.
+     */
+    async ownAction<T>(action: () => Thenable<T>): Promise<T> {
+        this.ownActions++;
+        try {
+            return await action();
+        } finally {
+            this.ownActions--;
+            this.ownActionEnded = Date.now();
+        }
+    }
+
+    /**
+     * The activity autopilot is still waiting out, or null once the idle period has passed.
+     */
+    pausedBy(): ActivityKind | null {
+        if (!this.enabled || Date.now() - this.lastActivity >= this.idle) return null;
+        return this.lastKind;
+    }
+}
@@ -0,0 +1,93 @@
+import * as vscode from 'vscode';
+import { ActivityKind } from './activity-monitor';
+import { JournalElement, JournalStrategy } from './journal';
+import { AcceptMode } from './profiles';
+
+/**
+ * The API returned from `activate`, for extensions and tasks that drive autopilot:
+ *
+ *     const kayorama = vscode.extensions.getExtension<KayoramaApi>('Kayorama.kayorama-autopilot')?.exports;
+ *     kayorama?.enable({ acceptMode: 'confirm' });
+ *
+ * Accepts made through the API pass the same policies, limits and activity pause as any other.
+ */
+
+export interface EnableOptions {
+    /** Overrides `kayorama.acceptMode` and the per-profile modes until autopilot is disabled */
+    acceptMode?: Exclude<AcceptMode, 'off'>;
+    /** Overrides `kayorama.shadowMode` until autopilot is disabled */
+    shadow?: boolean;
+    /** Disables autopilot again after this many minutes */
+    minutes?: number;
+    /** Disables autopilot again once the agent has been quiet for two minutes */
+    untilTaskDone?: boolean;
+}
+
+export interface AcceptEvent {
+    strategy: JournalStrategy;
+    /** ISO time of the accept */
+    time: string;
+    /** CDP session title, for clicks */
+    session: string | null;
+    /** The clicked element, for clicks */
+    element: JournalElement | null;
+    /** Terminal command proposed next to the clicked button, if any */
+    proposedCommand: string | null;
+    /** Command ID, for native accepts */
+    command: string | null;
+}
+
+export interface AutopilotStatus {
+    enabled: boolean;
+    /** Epoch milliseconds at which a timed session ends */
+    until: number | null;
+    untilTaskDone: boolean;
+    shadow: boolean;
+    acceptMode: AcceptMode;
+    /** The user activity autopilot is waiting out, if paused */
+    pausedBy: ActivityKind | null;
+    /** Why the circuit breaker stopped autopilot, if it did */
+    stoppedBy: string | null;
+    cdpSessions: number;
+    profiles: string[];
+}
+
+export interface KayoramaApi {
+    enable(options?: EnableOptions): void;
+    disable(): void;
+    /** Runs one detection and accept pass now, even while autopilot is off, and resolves with its accepts */
+    runOnce(): Promise<AcceptEvent[]>;
+    getStatus(): AutopilotStatus;
+    readonly onDidAccept: vscode.Event<AcceptEvent>;
+}
+
+/**
+ * Validates the options passed to `kayorama.enable` from a keybinding or task. Unknown values
+ * are reported in `errors` and left out.
+ */
+export function parseEnableOptions(raw: unknown, errors: string[]): EnableOptions {
+    if (raw === undefined || raw === null) return {};
+    if (typeof raw !== 'object' || Array.isArray(raw)) {
+        errors.push('options must be an object');
+        return {};
+    }
+    const { acceptMode, shadow, minutes, untilTaskDone } = raw as Record<string, unknown>;
+    const options: EnableOptions = {};
+    if (acceptMode !== undefined) {
+        if (acceptMode === 'confirm' || acceptMode === 'auto') options.acceptMode = acceptMode;
+        else errors.push(`acceptMode must be "confirm" or "auto"`);
+    }
+    if (shadow !== undefined) {
+        if (typeof shadow === 'boolean') options.shadow = shadow;
+        else errors.push('shadow must be a boolean');
+    }
+    if (minutes !== undefined) {
+        if (typeof minutes === 'number' && minutes > 0) options.minutes = minutes;
+        else errors.push('minutes must be a positive number');
+    }
+    if (untilTaskDone !== undefined) {
+        if (typeof untilTaskDone === 'boolean') options.untilTaskDone = untilTaskDone;
+        else errors.push('untilTaskDone must be a boolean');
+    }
+    return options;
+}
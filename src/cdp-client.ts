@@ -1,123 +1,348 @@
 import * as http from 'http';
 import * as WebSocket from 'ws';
+import { CDPCancelledError, CDPProtocolError, CDPSessionClosedError, CDPTimeoutError } from './cdp-errors';
+import { CDPEventMap } from './cdp-protocol';
+import { CDPEndpoint, localEndpoint, originAllowed } from './endpoints';
+import { LogLevel } from './logger';
 
 /**
  * Represents an active Chrome DevTools Protocol session.
  */
 export interface CDPSession {
     id: string;
+    /** Target id as listed by /json/list (the session id adds the endpoint id) */
+    targetId: string;
+    /** Id of the endpoint the session belongs to */
+    endpoint: string;
+    /** Target type: page, webview, iframe or other */
+    type: string;
     ws: WebSocket;
     url: string;
     title: string;
 }
 
+/**
+ * A debuggable target as listed by `/json/list`.
+ */
+export interface TargetListEntry {
+    id: string;
+    type: string;
+    url: string;
+    title: string;
+    /** Set by Chromium for targets embedded in another target (out-of-process iframes) */
+    parentId?: string;
+    webSocketDebuggerUrl?: string;
+}
+
+export type TargetFilter = (url: string, title: string, target: TargetListEntry) => boolean;
+
+export interface CDPCallOptions {
+    /** Overrides the client's default timeout for this call */
+    timeoutMs?: number;
+    /** Rejects the call with CDPCancelledError when aborted */
+    signal?: AbortSignal;
+}
+
+/**
+ * Receives an event's params, the session it came from and the event name
+ * (useful for `Domain.*` and `*` subscriptions).
+ */
+export type CDPEventHandler<P = any> = (params: P, session: CDPSession, method: string) => void;
+
+/**
+ * A session opening, or closing without disconnect() / disconnectAll() (the target went away).
+ * `reconnect` is set when this client was connected to the session before.
+ */
+export interface CDPConnectionEvent {
+    type: 'connected' | 'disconnected';
+    session: CDPSession;
+    reconnect: boolean;
+}
+
+interface PendingRequest {
+    method: string;
+    resolve: (result: any) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * A session plus the requests still waiting for an answer on its socket.
+ */
+interface SessionState extends CDPSession {
+    pending: Map<number, PendingRequest>;
+}
+
+const DEFAULT_TIMEOUT_MS = 2000;
+
 /**
  * Manages WebSocket connections to VS Code's embedded Chrome instance via the Remote Debugging Protocol.
  */
 export class CDPClient {
-    private sessions: Map<string, CDPSession> = new Map();
+    private sessions: Map<string, SessionState> = new Map();
     private messageIdCounter = 1;
+    private targetFilter: TargetFilter | null = null;
+    private handlers: Map<string, Set<CDPEventHandler>> = new Map();
+    // Target ids of the last /json/list, so new targets are logged once
+    private listedTargets = new Set<string>();
+    private connectionHandlers: Set<(event: CDPConnectionEvent) => void> = new Set();
+    // Session ids connected at least once, to tell reconnects apart
+    private everConnected = new Set<string>();
+    // Endpoint id -> problems of its last scan
+    private scanProblems: Map<string, string[]> = new Map();
+    private lastFailure: { message: string; time: number } | null = null;
 
-    constructor(private logger: (msg: string) => void) { }
+    constructor(private logger: (msg: string, level?: LogLevel) => void, private defaultTimeoutMs = DEFAULT_TIMEOUT_MS) { }
 
-    private log(msg: string) {
-        this.logger(`[CDP] ${msg}`);
+    private log(msg: string, level?: LogLevel) {
+        this.logger(`[CDP] ${msg}`, level);
     }
 
     /**
-     * Scans the debug port for available pages and connects to them.
-     * @param port The remote debugging port (default: 9222)
+     * Scans an endpoint (or a local debugging port) for available pages and connects to them.
+     * Endpoints with a wsUrl are connected directly.
      */
-    async scanAndConnect(port: number): Promise<number> {
-        let connectedCount = 0;
-        try {
-            const pages = await this.fetchPages(port);
-            if (pages.length > 0) {
+    async scanAndConnect(endpoint: CDPEndpoint | number): Promise<number> {
+        if (typeof endpoint === 'number') endpoint = localEndpoint(endpoint);
+        const problems: string[] = [];
+        if (endpoint.wsUrl) {
+            await this.connectDirect(endpoint, problems);
+        } else {
+            try {
+                const pages = await this.fetchPages(endpoint);
                 for (const page of pages) {
-                    const id = `${port}:${page.id}`;
-                    if (!this.sessions.has(id)) {
-                        await this.connectSession(id, page.webSocketDebuggerUrl, page.url, page.title);
-                        // We count it even if we don't *re*connect, just to report active count correctly?
-                        // Actually logic below increments on *new* connection.
-                        // But we want total active count.
-                    }
+                    const id = `${endpoint.id}:${page.id}`;
+                    if (!this.sessions.has(id)) await this.connectSession(id, page, endpoint, problems);
                 }
+            } catch (e: any) {
+                // Expected while the port is not open; kept for scanErrors() rather than logged
+                problems.push(`Could not list targets on ${endpoint.id}: ${e.message}`);
             }
-        } catch (e) {
-            // Connection errors are expected if the port is not open
         }
+        this.scanProblems.set(endpoint.id, problems);
+        if (problems.length > 0) this.lastFailure = { message: problems[problems.length - 1], time: Date.now() };
         return this.sessions.size;
     }
 
+    /**
+     * Problems of the endpoint's last scan: an unreachable target list or targets that refused
+     * the connection. Empty after a clean scan.
+     */
+    scanErrors(endpointId: string): string[] {
+        return this.scanProblems.get(endpointId) || [];
+    }
+
+    /**
+     * The most recent scan problem of any endpoint, with its time.
+     */
+    get lastError(): { message: string; time: number } | null {
+        return this.lastFailure;
+    }
+
+    /**
+     * Connects an endpoint's wsUrl as a page and reads its URL and title from the page itself,
+     * as there is no target list to take them from.
+     */
+    private async connectDirect(endpoint: CDPEndpoint, problems: string[]) {
+        const id = `${endpoint.id}:direct`;
+        if (this.sessions.has(id)) return;
+        const target: TargetListEntry = { id: 'direct', type: 'page', url: '', title: endpoint.id, webSocketDebuggerUrl: endpoint.wsUrl! };
+        if (!await this.connectSession(id, target, endpoint, problems)) return;
+        try {
+            const page = (await this.evaluate(id, '({ url: location.href, title: document.title })'))?.result?.value;
+            const session = this.sessions.get(id);
+            if (session && page) {
+                session.url = String(page.url);
+                session.title = String(page.title || endpoint.id);
+            }
+        } catch (e: any) {
+            this.log(`Could not read the page of ${endpoint.id}: ${e.message}`, 'warn');
+        }
+    }
+
     get sessionCount(): number {
         return this.sessions.size;
     }
 
-    private fetchPages(port: number): Promise<any[]> {
+    /**
+     * Returns a snapshot of the active sessions.
+     */
+    getSessions(): CDPSession[] {
+        return Array.from(this.sessions.values());
+    }
+
+    /**
+     * Restricts which targets are connected on the next scan (e.g. to enabled provider profiles).
+     */
+    setTargetFilter(filter: TargetFilter | null) {
+        this.targetFilter = filter;
+    }
+
+    /**
+     * Subscribes to a CDP event of all sessions. `method` may be an exact event name,
+     * a domain wildcard such as `DOM.*` / `Target.*`, or `*` for everything.
+     * Returns an unsubscribe function.
+     */
+    on<K extends keyof CDPEventMap>(method: K, handler: CDPEventHandler<CDPEventMap[K]>): () => void;
+    on(method: string, handler: CDPEventHandler): () => void;
+    on(method: string, handler: CDPEventHandler): () => void {
+        let set = this.handlers.get(method);
+        if (!set) this.handlers.set(method, set = new Set());
+        set.add(handler);
+        return () => { set!.delete(handler); };
+    }
+
+    /**
+     * Subscribes to sessions connecting and dropping. Returns an unsubscribe function.
+     */
+    onConnection(handler: (event: CDPConnectionEvent) => void): () => void {
+        this.connectionHandlers.add(handler);
+        return () => { this.connectionHandlers.delete(handler); };
+    }
+
+    private emitConnection(type: CDPConnectionEvent['type'], session: CDPSession, reconnect: boolean) {
+        for (const handler of this.connectionHandlers) {
+            try {
+                handler({ type, session, reconnect });
+            } catch (e: any) {
+                this.log(`Connection handler threw: ${e.message}`, 'error');
+            }
+        }
+    }
+
+    private emit(session: CDPSession, method: string, params: any) {
+        const keys = [method, `${method.split('.')[0]}.*`, '*'];
+        for (const key of keys) {
+            const set = this.handlers.get(key);
+            if (!set) continue;
+            for (const handler of set) {
+                try {
+                    handler(params, session, method);
+                } catch (e: any) {
+                    this.log(`Handler for ${method} threw: ${e.message}`, 'error');
+                }
+            }
+        }
+    }
+
+    /**
+     * Single dispatcher per socket: routes responses to their pending request and everything else to event handlers.
+     */
+    private dispatch(session: SessionState, data: WebSocket.Data) {
+        let msg: any;
+        try {
+            msg = JSON.parse(data.toString());
+        } catch (e) {
+            return;
+        }
+        if (typeof msg.id === 'number') {
+            const request = session.pending.get(msg.id);
+            if (!request) return;
+            if (msg.error) {
+                request.reject(new CDPProtocolError(request.method, msg.error.code, msg.error.message, msg.error.data));
+            } else {
+                request.resolve(msg.result);
+            }
+        } else if (typeof msg.method === 'string') {
+            this.emit(session, msg.method, msg.params || {});
+        }
+    }
+
+    private fetchPages(endpoint: CDPEndpoint): Promise<TargetListEntry[]> {
         return new Promise((resolve, reject) => {
-            const req = http.get({ hostname: '127.0.0.1', port, path: '/json/list', timeout: 300 }, (res) => {
+            const req = http.get({ hostname: endpoint.host, port: endpoint.port, path: '/json/list', timeout: endpoint.listTimeoutMs }, (res) => {
                 let body = '';
                 res.on('data', chunk => body += chunk);
                 res.on('end', () => {
                     try {
                         const pages = JSON.parse(body);
-                        const filtered = this.filterTargetPages(pages);
+                        const filtered = this.filterTargetPages(pages, endpoint);
                         resolve(filtered);
-                    } catch (e) { resolve([]); }
+                    } catch (e) { reject(new Error(`Invalid target list: ${body.substring(0, 100)}`)); }
                 });
             });
             req.on('error', (e) => reject(e));
-            req.on('timeout', () => { req.destroy(); reject(new Error('Timeout')); });
+            req.on('timeout', () => { req.destroy(); reject(new Error(`Timed out after ${endpoint.listTimeoutMs}ms`)); });
         });
     }
 
     /**
-     * Filters the list of available targets to specific VS Code workbench pages.
+     * Filters the list of available targets to specific VS Code workbench pages,
+     * narrowed down by the target filter if one is set.
      */
-    private filterTargetPages(pages: any[]): any[] {
-        return pages.filter(p => {
-            if (!p.webSocketDebuggerUrl) return false;
+    private filterTargetPages(pages: TargetListEntry[], endpoint: CDPEndpoint): TargetListEntry[] {
+        // Each target is logged once, when it shows up
+        const listed = new Set<string>();
+        for (const p of pages) {
+            const key = `${endpoint.id}:${p.id}`;
+            listed.add(key);
+            if (!this.listedTargets.has(key)) this.log(`New target on ${endpoint.id}: Type=${p.type} Title="${p.title}" URL=${p.url.substring(0, 50)}...`, 'debug');
+        }
+        this.listedTargets.forEach(key => { if (!key.startsWith(`${endpoint.id}:`)) listed.add(key); });
+        this.listedTargets = listed;
+        return pages.filter(p => this.isWorkbenchTarget(p, endpoint) && (!this.targetFilter || this.targetFilter(p.url, p.title, p)));
+    }
 
-            // v7.9.0 Debugging: Log ALL targets seen
-            this.log(`DEBUG TARGET: Type=${p.type} Title="${p.title}" URL=${p.url.substring(0, 50)}...`);
+    private isWorkbenchTarget(p: TargetListEntry, endpoint: CDPEndpoint): boolean {
+        if (!p.webSocketDebuggerUrl) return false;
 
-            // 1. Must be page, webview, iframe, or other (sometimes webviews are 'other')
-            if (p.type !== 'page' && p.type !== 'webview' && p.type !== 'iframe' && p.type !== 'other') return false;
+        // 1. Must be page, webview, iframe, or other (sometimes webviews are 'other')
+        if (p.type !== 'page' && p.type !== 'webview' && p.type !== 'iframe' && p.type !== 'other') return false;
 
-            // 2. Exclude strictly external/devtools
-            const isExternal = p.url.startsWith('http:') || p.url.startsWith('https:') || p.url.startsWith('devtools://');
-            if (isExternal) return false;
+        // 2. Exclude devtools, and web pages unless the endpoint allows their origin (browser-hosted workbench)
+        if (p.url.startsWith('devtools://')) return false;
+        const isWeb = p.url.startsWith('http:') || p.url.startsWith('https:');
+        if (isWeb && !originAllowed(p.url, endpoint.allowedOrigins)) return false;
+        if (isWeb) return true;
 
-            // 3. Relaxed VS Code Check (v7.7.0 + v7.9.0)
-            // If it's a webview/iframe/other, we assume it's relevant (Chat view, etc.)
-            if (p.type === 'webview' || p.type === 'iframe' || p.type === 'other') return true;
+        // 3. Relaxed VS Code Check (v7.7.0 + v7.9.0)
+        // If it's a webview/iframe/other, we assume it's relevant (Chat view, etc.)
+        if (p.type === 'webview' || p.type === 'iframe' || p.type === 'other') return true;
 
-            // For 'page', strict check for workbench
-            const isWorkbench = p.url.startsWith('vscode-file://') ||
-                p.title.includes('Workbench') ||
-                p.title.includes('Visual Studio Code');
+        // For 'page', strict check for workbench
+        const isWorkbench = p.url.startsWith('vscode-file://') ||
+            p.title.includes('Workbench') ||
+            p.title.includes('Visual Studio Code');
 
-            return isWorkbench;
-        });
+        return isWorkbench;
     }
 
-    private connectSession(id: string, wsUrl: string, url: string, title: string): Promise<boolean> {
+    /**
+     * Resolves with false if the socket could not be opened; the reason is added to `problems`.
+     */
+    private connectSession(id: string, target: TargetListEntry, endpoint: CDPEndpoint, problems: string[]): Promise<boolean> {
+        const { url, title } = target;
         return new Promise((resolve) => {
-            const ws = new WebSocket(wsUrl);
+            let opened = false;
+            const ws = new WebSocket(target.webSocketDebuggerUrl!, { handshakeTimeout: endpoint.connectTimeoutMs });
+            const session: SessionState = { id, targetId: target.id, endpoint: endpoint.id, type: target.type, ws, url, title, pending: new Map() };
 
             ws.on('open', () => {
-                this.sessions.set(id, { id, ws, url, title });
-                this.log(`Connected to session: "${title.substring(0, 40)}..."`);
+                opened = true;
+                this.sessions.set(id, session);
+                this.log(`Connected to session on ${endpoint.id}: "${session.title.substring(0, 40)}..."`);
+                const reconnect = this.everConnected.has(id);
+                this.everConnected.add(id);
+                this.emitConnection('connected', session, reconnect);
                 resolve(true);
             });
 
+            ws.on('message', (data: WebSocket.Data) => this.dispatch(session, data));
+
             ws.on('error', (err: Error) => {
+                if (!opened) problems.push(`Could not connect to "${title.substring(0, 40)}" on ${endpoint.id}: ${err.message}`);
                 resolve(false);
             });
 
             ws.on('close', () => {
-                this.sessions.delete(id);
-                this.log(`Disconnected session: ${id}`);
+                for (const request of Array.from(session.pending.values())) {
+                    request.reject(new CDPSessionClosedError(id, request.method));
+                }
+                // A newer connection may already have replaced this one
+                if (this.sessions.get(id) === session) {
+                    this.sessions.delete(id);
+                    this.log(`Disconnected session: ${id}`);
+                    this.emitConnection('disconnected', session, false);
+                }
             });
         });
     }
@@ -133,48 +358,88 @@ export class CDPClient {
         return Promise.all(promises);
     }
 
-    evaluate(id: string, expression: string): Promise<any> {
+    /**
+     * Executes a per-session JavaScript expression in all active sessions.
+     * Sessions for which `buildExpression` returns null are skipped.
+     */
+    async evaluateEach(buildExpression: (session: CDPSession) => string | null): Promise<{ session: CDPSession; result: any }[]> {
+        const promises = [];
+        for (const session of this.sessions.values()) {
+            const expression = buildExpression(session);
+            if (expression === null) continue;
+            promises.push(this.evaluate(session.id, expression)
+                .then(result => ({ session, result }))
+                .catch(() => ({ session, result: null })));
+        }
+        return Promise.all(promises);
+    }
+
+    evaluate(id: string, expression: string, options?: CDPCallOptions): Promise<any> {
+        return this.send(id, 'Runtime.evaluate', {
+            expression,
+            awaitPromise: true,
+            includeCommandLineAPI: true,
+            returnByValue: true
+        }, options);
+    }
+
+    /**
+     * Sends an arbitrary CDP command to a session and resolves with its result.
+     * Rejects with CDPTimeoutError, CDPSessionClosedError, CDPCancelledError or CDPProtocolError.
+     */
+    send<T = any>(id: string, method: string, params: object = {}, options: CDPCallOptions = {}): Promise<T> {
         const session = this.sessions.get(id);
         if (!session || session.ws.readyState !== WebSocket.OPEN) {
-            return Promise.reject(new Error('Session not active'));
+            return Promise.reject(new CDPSessionClosedError(id, method));
+        }
+        const { timeoutMs = this.defaultTimeoutMs, signal } = options;
+        if (signal?.aborted) {
+            return Promise.reject(new CDPCancelledError(method));
         }
 
-        return new Promise((resolve, reject) => {
+        return new Promise<T>((resolve, reject) => {
             const reqId = this.messageIdCounter++;
-            const timeout = setTimeout(() => {
-                session.ws.off('message', onMessage);
-                reject(new Error('Timeout'));
-            }, 2000);
 
-            const onMessage = (data: WebSocket.Data) => {
-                try {
-                    const msg = JSON.parse(data.toString());
-                    if (msg.id === reqId) {
-                        session.ws.off('message', onMessage);
-                        clearTimeout(timeout);
-                        if (msg.error) {
-                            reject(new Error(msg.error.message));
-                        } else {
-                            resolve(msg.result);
-                        }
-                    }
-                } catch (e) { }
+            const settle = () => {
+                session.pending.delete(reqId);
+                clearTimeout(timeout);
+                signal?.removeEventListener('abort', onAbort);
             };
+            const timeout = setTimeout(() => {
+                settle();
+                reject(new CDPTimeoutError(method, timeoutMs));
+            }, timeoutMs);
+            const onAbort = () => {
+                settle();
+                reject(new CDPCancelledError(method));
+            };
+            signal?.addEventListener('abort', onAbort);
+
+            session.pending.set(reqId, {
+                method,
+                resolve: (result) => { settle(); resolve(result); },
+                reject: (error) => { settle(); reject(error); }
+            });
 
-            session.ws.on('message', onMessage);
-            session.ws.send(JSON.stringify({
-                id: reqId,
-                method: 'Runtime.evaluate',
-                params: {
-                    expression,
-                    awaitPromise: true,
-                    includeCommandLineAPI: true,
-                    returnByValue: true
+            session.ws.send(JSON.stringify({ id: reqId, method, params }), (err) => {
+                if (err && session.pending.has(reqId)) {
+                    settle();
+                    reject(new CDPSessionClosedError(id, method));
                 }
-            }));
+            });
         });
     }
 
+    /**
+     * Closes one session. It is connected again by the next scan unless the target filter excludes it.
+     */
+    disconnect(id: string) {
+        const session = this.sessions.get(id);
+        if (!session) return;
+        this.sessions.delete(id);
+        session.ws.close();
+    }
+
     disconnectAll() {
         for (const session of this.sessions.values()) {
             session.ws.close();
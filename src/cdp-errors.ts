@@ -0,0 +1,46 @@
+/**
+ * Errors raised by CDPClient. Callers can tell a slow target (timeout), a vanished target
+ * (closed session), a cancelled call and a command the target rejected (protocol error) apart.
+ */
+export class CDPError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * The target did not answer within the call's timeout.
+ */
+export class CDPTimeoutError extends CDPError {
+    constructor(readonly method: string, readonly timeoutMs: number) {
+        super(`${method} timed out after ${timeoutMs}ms`);
+    }
+}
+
+/**
+ * The session is unknown, not open yet, or its WebSocket closed while the call was pending.
+ */
+export class CDPSessionClosedError extends CDPError {
+    constructor(readonly sessionId: string, readonly method?: string) {
+        super(`Session ${sessionId} is not active${method ? ` (${method})` : ''}`);
+    }
+}
+
+/**
+ * The call was aborted through its AbortSignal.
+ */
+export class CDPCancelledError extends CDPError {
+    constructor(readonly method: string) {
+        super(`${method} was cancelled`);
+    }
+}
+
+/**
+ * The target answered with a protocol error (unknown method, invalid params, ...).
+ */
+export class CDPProtocolError extends CDPError {
+    constructor(readonly method: string, readonly code: number, message: string, readonly data?: string) {
+        super(`${method} failed: ${message}${data ? ` (${data})` : ''}`);
+    }
+}
@@ -0,0 +1,49 @@
+/**
+ * The subset of Chrome DevTools Protocol event payloads the extension listens to.
+ * Events not listed here can still be subscribed to; their params are untyped.
+ */
+
+export interface RemoteObject {
+    type: string;
+    subtype?: string;
+    value?: any;
+    description?: string;
+}
+
+export interface ExecutionContextDescription {
+    id: number;
+    origin: string;
+    name: string;
+    uniqueId?: string;
+    auxData?: { isDefault?: boolean; frameId?: string; type?: string };
+}
+
+export interface TargetInfo {
+    targetId: string;
+    type: string;
+    title: string;
+    url: string;
+    attached: boolean;
+    openerId?: string;
+    browserContextId?: string;
+}
+
+export interface CDPEventMap {
+    'Runtime.bindingCalled': { name: string; payload: string; executionContextId: number };
+    'Runtime.consoleAPICalled': { type: string; args: RemoteObject[]; executionContextId: number; timestamp: number };
+    'Runtime.executionContextCreated': { context: ExecutionContextDescription };
+    'Runtime.executionContextDestroyed': { executionContextId: number };
+    'Runtime.executionContextsCleared': {};
+    'Runtime.exceptionThrown': { timestamp: number; exceptionDetails: { text: string; exception?: RemoteObject } };
+    'DOM.documentUpdated': {};
+    'DOM.childNodeInserted': { parentNodeId: number; previousNodeId: number; node: any };
+    'DOM.childNodeRemoved': { parentNodeId: number; nodeId: number };
+    'DOM.attributeModified': { nodeId: number; name: string; value: string };
+    'Page.frameNavigated': { frame: { id: string; parentId?: string; url: string } };
+    'Page.loadEventFired': { timestamp: number };
+    'Target.targetCreated': { targetInfo: TargetInfo };
+    'Target.targetDestroyed': { targetId: string };
+    'Target.targetInfoChanged': { targetInfo: TargetInfo };
+    'Target.attachedToTarget': { sessionId: string; targetInfo: TargetInfo; waitingForDebugger: boolean };
+    'Target.detachedFromTarget': { sessionId: string; targetId?: string };
+}
@@ -0,0 +1,329 @@
+import * as http from 'http';
+import * as WebSocket from 'ws';
+import { CDPClient } from './cdp-client';
+import { TargetInfo } from './cdp-protocol';
+import { CDPEndpoint } from './endpoints';
+import { LogLevel } from './logger';
+
+/**
+ * Keeps the CDP connection up. Runs the connect routine on a timer, backs off exponentially
+ * while the debug port is down, and subscribes to the browser target's `Target.*` events so
+ * a webview that opens between scans is attached at once.
+ */
+
+export type ConnectionHealth = 'connected' | 'degraded' | 'unreachable';
+
+export interface ConnectionStatus {
+    /** `degraded`: connected, but a target refused the connection or target discovery is unavailable */
+    health: ConnectionHealth;
+    /** The latest problem, kept after the connection recovers */
+    lastError: { message: string; time: number } | null;
+    /** Failed attempts in a row */
+    failures: number;
+    /** Epoch milliseconds of the next attempt, null while stopped */
+    nextAttemptAt: number | null;
+    /** Set while new targets are reported by the browser target instead of found by scans */
+    discovering: boolean;
+}
+
+export interface SupervisorOptions {
+    /** Time between scans while connected */
+    intervalMs: number;
+    /** Delay after the first failed attempt, doubled per further failure up to `maxBackoffMs` */
+    minBackoffMs: number;
+    maxBackoffMs: number;
+    /** Wait after a target appears, batching the events of a webview opening */
+    discoveryDelayMs: number;
+}
+
+export const DEFAULT_SUPERVISOR_OPTIONS: SupervisorOptions = { intervalMs: 5000, minBackoffMs: 1000, maxBackoffMs: 60000, discoveryDelayMs: 150 };
+
+/**
+ * Time until the next attempt after `failures` failed attempts in a row.
+ */
+export function backoffDelay(failures: number, options: SupervisorOptions): number {
+    if (failures <= 0) return options.intervalMs;
+    return Math.min(options.maxBackoffMs, options.minBackoffMs * 2 ** (failures - 1));
+}
+
+/**
+ * Connects or rescans, and resolves with the endpoint in use, or null if none was reachable.
+ */
+export type ConnectRoutine = () => Promise<CDPEndpoint | null>;
+
+const ATTACHABLE_TYPES = ['page', 'webview', 'iframe', 'other'];
+
+function isBlank(url: string): boolean {
+    return url === '' || url === 'about:blank';
+}
+
+export class ConnectionSupervisor {
+    private connect: ConnectRoutine | null = null;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private busy = false;
+    private rerun = false;
+    private watcher: TargetWatcher | null = null;
+    // Targets created blank; they are scanned for once they navigate
+    private blankTargets = new Set<string>();
+    private state: ConnectionStatus = { health: 'unreachable', lastError: null, failures: 0, nextAttemptAt: null, discovering: false };
+    private listeners: Set<(status: ConnectionStatus) => void> = new Set();
+
+    constructor(private client: CDPClient, private logger: (msg: string, level?: LogLevel) => void, private options: SupervisorOptions = DEFAULT_SUPERVISOR_OPTIONS) { }
+
+    private log(msg: string, level?: LogLevel) {
+        this.logger(`[CDP] ${msg}`, level);
+    }
+
+    get status(): ConnectionStatus {
+        return { ...this.state, discovering: this.watcher !== null };
+    }
+
+    /**
+     * Subscribes to health and schedule changes. Returns an unsubscribe function.
+     */
+    onChange(listener: (status: ConnectionStatus) => void): () => void {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    /**
+     * Runs `connect` now and from then on at the interval, or with backoff while it fails.
+     */
+    start(connect: ConnectRoutine) {
+        this.stop();
+        this.connect = connect;
+        this.state = { ...this.state, failures: 0 };
+        this.schedule(0);
+    }
+
+    stop() {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+        this.connect = null;
+        this.closeWatcher();
+        this.update({ nextAttemptAt: null });
+    }
+
+    /**
+     * Brings the next attempt forward, e.g. after the endpoints changed.
+     */
+    kick(delayMs = 0) {
+        if (!this.connect) return;
+        if (this.busy) {
+            this.rerun = true;
+            return;
+        }
+        if (this.timer && this.state.nextAttemptAt !== null && this.state.nextAttemptAt <= Date.now() + delayMs) return;
+        this.schedule(delayMs);
+    }
+
+    private schedule(delayMs: number) {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.attempt();
+        }, delayMs);
+        this.update({ nextAttemptAt: Date.now() + delayMs });
+    }
+
+    private async attempt() {
+        const connect = this.connect;
+        if (!connect) return;
+        if (this.busy) {
+            this.rerun = true;
+            return;
+        }
+        this.busy = true;
+        let endpoint: CDPEndpoint | null = null;
+        let error: string | null = null;
+        try {
+            endpoint = await connect();
+        } catch (e: any) {
+            error = e.message;
+        }
+        const problems = endpoint ? this.client.scanErrors(endpoint.id) : [];
+        const sessions = endpoint ? this.client.getSessions().filter(s => s.endpoint === endpoint!.id).length : 0;
+
+        if (this.connect !== connect) {
+            // Stopped or restarted meanwhile
+        } else if (endpoint === null || (sessions === 0 && problems.length > 0)) {
+            this.closeWatcher();
+            const failures = this.state.failures + 1;
+            const delayMs = backoffDelay(failures, this.options);
+            this.setHealth('unreachable', error || problems[0] || this.client.lastError?.message || 'No debug endpoint found', failures, delayMs);
+            this.schedule(delayMs);
+        } else {
+            const watchError = endpoint.wsUrl ? null : await this.watch(endpoint);
+            const problem = error || problems[0] || watchError;
+            if (this.connect !== connect) {
+                this.closeWatcher();
+            } else {
+                this.setHealth(problem ? 'degraded' : 'connected', problem, 0, this.options.intervalMs);
+                this.schedule(this.options.intervalMs);
+            }
+        }
+
+        this.busy = false;
+        if (this.rerun) {
+            this.rerun = false;
+            if (this.connect) this.schedule(0);
+        }
+    }
+
+    private setHealth(health: ConnectionHealth, message: string | null, failures: number, nextInMs: number) {
+        const previous = this.state;
+        if (health !== previous.health || (message !== null && message !== previous.lastError?.message)) {
+            if (health === 'connected') this.log('Connection healthy');
+            else if (health === 'degraded') this.log(`Connection degraded: ${message}`, 'warn');
+            else this.log(`Debug endpoint unreachable (${message}), retrying in ${Math.round(nextInMs / 1000)}s`, 'warn');
+        }
+        this.update({ health, failures, lastError: message === null ? previous.lastError : { message, time: Date.now() } });
+    }
+
+    private update(changes: Partial<ConnectionStatus>) {
+        this.state = { ...this.state, ...changes };
+        const status = this.status;
+        for (const listener of this.listeners) {
+            try {
+                listener(status);
+            } catch (e: any) {
+                this.log(`Status listener threw: ${e.message}`, 'error');
+            }
+        }
+    }
+
+    /**
+     * Subscribes to target discovery on the endpoint's browser target, unless already subscribed.
+     * Resolves with the problem if that is not possible; scans still find new targets then.
+     */
+    private async watch(endpoint: CDPEndpoint): Promise<string | null> {
+        if (this.watcher?.watches(endpoint)) return null;
+        this.closeWatcher();
+        const watcher = new TargetWatcher(endpoint, (method, info) => this.onTargetEvent(endpoint, method, info), () => {
+            if (this.watcher !== watcher) return;
+            this.watcher = null;
+            this.log(`Target discovery on ${endpoint.id} closed`, 'debug');
+            this.kick();
+        });
+        try {
+            await watcher.start();
+        } catch (e: any) {
+            watcher.close();
+            return `Target discovery on ${endpoint.id} unavailable: ${e.message}`;
+        }
+        this.watcher = watcher;
+        this.log(`Watching targets on ${endpoint.id}`, 'debug');
+        return null;
+    }
+
+    private closeWatcher() {
+        const watcher = this.watcher;
+        this.watcher = null;
+        this.blankTargets.clear();
+        watcher?.close();
+    }
+
+    private onTargetEvent(endpoint: CDPEndpoint, method: string, info: TargetInfo) {
+        if (method === 'Target.targetDestroyed') {
+            this.blankTargets.delete(info.targetId);
+            return;
+        }
+        if (!ATTACHABLE_TYPES.includes(info.type)) return;
+        if (this.client.getSessions().some(s => s.id === `${endpoint.id}:${info.targetId}`)) return;
+        // Webviews open blank and navigate right after; the scan waits for the URL the filters need
+        if (isBlank(info.url)) {
+            if (method === 'Target.targetCreated') this.blankTargets.add(info.targetId);
+            return;
+        }
+        if (method === 'Target.targetInfoChanged' && !this.blankTargets.delete(info.targetId)) return;
+        this.log(`Target appeared on ${endpoint.id}: Type=${info.type} Title="${info.title}"`, 'debug');
+        this.kick(this.options.discoveryDelayMs);
+    }
+}
+
+/**
+ * A socket to the endpoint's browser target with target discovery switched on.
+ */
+class TargetWatcher {
+    private ws: WebSocket | null = null;
+
+    constructor(
+        private endpoint: CDPEndpoint,
+        private onTarget: (method: string, info: TargetInfo) => void,
+        private onClose: () => void
+    ) { }
+
+    watches(endpoint: CDPEndpoint): boolean {
+        return this.endpoint.id === endpoint.id && this.endpoint.host === endpoint.host && this.endpoint.port === endpoint.port;
+    }
+
+    async start(): Promise<void> {
+        const url = await this.browserUrl();
+        await new Promise<void>((resolve, reject) => {
+            const ws = new WebSocket(url, { handshakeTimeout: this.endpoint.connectTimeoutMs });
+            this.ws = ws;
+            let started = false;
+            const timeout = setTimeout(() => fail(new Error('Target.setDiscoverTargets timed out')), this.endpoint.connectTimeoutMs);
+            const fail = (err: Error) => {
+                clearTimeout(timeout);
+                if (!started) reject(err);
+            };
+
+            ws.on('open', () => ws.send(JSON.stringify({ id: 1, method: 'Target.setDiscoverTargets', params: { discover: true } })));
+            ws.on('message', (data: WebSocket.Data) => {
+                let msg: any;
+                try {
+                    msg = JSON.parse(data.toString());
+                } catch (e) {
+                    return;
+                }
+                if (msg.id === 1) {
+                    if (msg.error) return fail(new Error(msg.error.message));
+                    clearTimeout(timeout);
+                    started = true;
+                    resolve();
+                } else if (typeof msg.method === 'string' && msg.method.startsWith('Target.')) {
+                    const params = msg.params || {};
+                    const info: TargetInfo = params.targetInfo || { targetId: params.targetId, type: '', title: '', url: '', attached: false };
+                    this.onTarget(msg.method, info);
+                }
+            });
+            ws.on('error', (err: Error) => fail(err));
+            ws.on('close', () => {
+                fail(new Error('Socket closed'));
+                if (started) this.onClose();
+            });
+        });
+    }
+
+    close() {
+        const ws = this.ws;
+        this.ws = null;
+        ws?.removeAllListeners('close');
+        ws?.on('error', () => { });
+        ws?.terminate();
+    }
+
+    /**
+     * The browser target's socket URL from /json/version.
+     */
+    private browserUrl(): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const req = http.get({ hostname: this.endpoint.host, port: this.endpoint.port, path: '/json/version', timeout: this.endpoint.listTimeoutMs }, res => {
+                let body = '';
+                res.on('data', chunk => body += chunk);
+                res.on('end', () => {
+                    try {
+                        const url = JSON.parse(body).webSocketDebuggerUrl;
+                        if (typeof url === 'string' && url) resolve(url);
+                        else reject(new Error('no browser target in /json/version'));
+                    } catch (e) {
+                        reject(new Error(`Invalid /json/version: ${body.substring(0, 100)}`));
+                    }
+                });
+            });
+            req.on('error', reject);
+            req.on('timeout', () => { req.destroy(); reject(new Error(`Timed out after ${this.endpoint.listTimeoutMs}ms`)); });
+        });
+    }
+}
@@ -0,0 +1,119 @@
+/**
+ * Terminal command safety policy.
+ * Decides whether autopilot may accept an agent step that runs a shell command.
+ */
+
+export type PolicyAction = 'allow' | 'confirm' | 'deny';
+
+export interface CommandPattern {
+    /** Case-insensitive regular expression tested against the full command text */
+    pattern: string;
+    action?: 'confirm' | 'deny';
+    reason?: string;
+}
+
+export interface CommandPolicyConfig {
+    enabled: boolean;
+    /** Applied after the built-in patterns */
+    deny: CommandPattern[];
+    /** Regexes for commands that may run without confirmation (deny patterns still win) */
+    allow: string[];
+    /** Action for commands that match neither list */
+    defaultAction: PolicyAction;
+}
+
+export interface PolicyDecision {
+    action: PolicyAction;
+    reason: string;
+    pattern?: string;
+}
+
+export const BUILTIN_DENY_PATTERNS: CommandPattern[] = [
+    { pattern: '\\brm\\s+(-[a-z]*r[a-z]*f|-[a-z]*f[a-z]*r|-r\\s+-f|-f\\s+-r|--recursive\\s+--force|--force\\s+--recursive)\\b', action: 'deny', reason: 'recursive force delete' },
+    { pattern: '\\bgit\\s+push\\b.*(--force\\b|--force-with-lease\\b|\\s-f\\b)', action: 'deny', reason: 'force push' },
+    { pattern: '\\b(curl|wget)\\b[^|]*\\|\\s*(sudo\\s+)?(ba|z|k|da)?sh\\b', action: 'deny', reason: 'pipes a download into a shell' },
+    { pattern: '\\b(mkfs(\\.\\w+)?|dd\\s+if=)|>\\s*/dev/(sd|nvme|disk)', action: 'deny', reason: 'writes to a raw disk' },
+    { pattern: ':\\(\\)\\s*\\{.*\\};\\s*:', action: 'deny', reason: 'fork bomb' },
+    { pattern: '\\bsudo\\b', action: 'confirm', reason: 'runs with sudo' },
+    { pattern: '\\bgit\\s+(reset\\s+--hard|clean\\s+-[a-z]*f)', action: 'confirm', reason: 'discards local changes' },
+    { pattern: '\\bchmod\\s+(-R\\s+)?777\\b', action: 'confirm', reason: 'makes files world-writable' }
+];
+
+/**
+ * Native commands that run an agent-proposed terminal command whose text cannot be inspected.
+ */
+export const NATIVE_TERMINAL_COMMANDS = [
+    'workbench.action.terminal.chat.runCommand',
+    'antigravity.terminalCommand.accept'
+];
+
+export const DEFAULT_POLICY: CommandPolicyConfig = {
+    enabled: true,
+    deny: [],
+    allow: [],
+    defaultAction: 'allow'
+};
+
+interface CompiledPattern {
+    re: RegExp;
+    source: string;
+    action: 'confirm' | 'deny';
+    reason: string;
+}
+
+/**
+ * Evaluates proposed shell commands against the deny/allow lists.
+ * Deny patterns win over allow patterns; `confirm` asks the user first.
+ */
+export class CommandPolicy {
+    private deny: CompiledPattern[] = [];
+    private allow: { re: RegExp; source: string }[] = [];
+
+    constructor(private config: CommandPolicyConfig, errors: string[] = []) {
+        for (const p of BUILTIN_DENY_PATTERNS.concat(config.deny)) {
+            try {
+                this.deny.push({
+                    re: new RegExp(p.pattern, 'i'),
+                    source: p.pattern,
+                    action: p.action === 'confirm' ? 'confirm' : 'deny',
+                    reason: p.reason || `matches deny pattern /${p.pattern}/`
+                });
+            } catch (e: any) {
+                errors.push(`deny pattern /${p.pattern}/ is invalid (${e.message})`);
+            }
+        }
+        for (const source of config.allow) {
+            try {
+                this.allow.push({ re: new RegExp(source, 'i'), source });
+            } catch (e: any) {
+                errors.push(`allow pattern /${source}/ is invalid (${e.message})`);
+            }
+        }
+    }
+
+    get enabled(): boolean {
+        return this.config.enabled;
+    }
+
+    evaluate(command: string): PolicyDecision {
+        if (!this.config.enabled) return { action: 'allow', reason: 'policy disabled' };
+
+        // The strictest matching deny pattern wins
+        const hits = this.deny.filter(p => p.re.test(command));
+        const hit = hits.find(p => p.action === 'deny') || hits[0];
+        if (hit) return { action: hit.action, reason: hit.reason, pattern: hit.source };
+
+        const allowed = this.allow.find(p => p.re.test(command));
+        if (allowed) return { action: 'allow', reason: 'matches allow pattern', pattern: allowed.source };
+
+        return { action: this.config.defaultAction, reason: 'no pattern matched (default action)' };
+    }
+
+    /**
+     * Decision for a step that shows several different commands, so the one it runs is unknown.
+     */
+    evaluateAmbiguous(): PolicyDecision {
+        if (!this.config.enabled) return { action: 'allow', reason: 'policy disabled' };
+        return { action: this.config.defaultAction, reason: 'several proposed commands next to the button (default action)' };
+    }
+}
@@ -0,0 +1,59 @@
+/**
+ * Redaction for the diagnostics bundle: workspace and home paths are replaced by placeholders,
+ * and anything that looks like a credential is masked, in every string of the bundle.
+ */
+
+export interface RedactionContext {
+    homeDir: string;
+    workspaceFolders: string[];
+}
+
+const REDACTED = '<redacted>';
+
+// GitHub, OpenAI/Anthropic style, Slack and AWS access keys, JWTs
+const TOKEN = /\b(gh[pousr]_[A-Za-z0-9]{20,}|github_pat_[A-Za-z0-9_]{20,}|sk-[A-Za-z0-9_-]{20,}|xox[abprs]-[A-Za-z0-9-]{10,}|AKIA[0-9A-Z]{16}|eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,})\b/g;
+const SECRET_NAME = '(?:token|secret|password|passwd|api[_-]?key|auth)';
+// key=value, key: value and "key": "value" where the key names a secret
+const SECRET_ASSIGNMENT = new RegExp(`\\b((?:[\\w-]*${SECRET_NAME})["']?\\s*[:=]\\s*["']?)[^\\s"'&,;]+`, 'gi');
+// Object keys such as apiKey or GITHUB_TOKEN, whose whole value is masked
+const SECRET_KEY = new RegExp(SECRET_NAME, 'i');
+const BEARER = /\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]{8,}/g;
+
+function escapeRegExp(s: string): string {
+    return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function redactText(text: string, context: RedactionContext): string {
+    let result = text
+        .replace(TOKEN, REDACTED)
+        .replace(BEARER, `$1 ${REDACTED}`)
+        .replace(SECRET_ASSIGNMENT, `$1${REDACTED}`);
+    // Longest first, so a folder inside the home directory keeps its placeholder
+    const paths = [
+        ...context.workspaceFolders.map((folder, i) => ({ path: folder, placeholder: `<workspace${context.workspaceFolders.length > 1 ? i + 1 : ''}>` })),
+        { path: context.homeDir, placeholder: '~' }
+    ].filter(p => p.path.length > 1).sort((a, b) => b.path.length - a.path.length);
+    for (const { path, placeholder } of paths) {
+        // Paths appear with either separator in URLs and logs
+        const pattern = escapeRegExp(path).replace(/\\\\|\//g, '[\\\\/]');
+        result = result.replace(new RegExp(pattern, 'gi'), placeholder);
+    }
+    return result;
+}
+
+/**
+ * Redacts every string (and object key) in a JSON-compatible value. Values under a key that
+ * names a secret are masked whole.
+ */
+export function redactValue<T>(value: T, context: RedactionContext): T {
+    if (typeof value === 'string') return redactText(value, context) as unknown as T;
+    if (Array.isArray(value)) return value.map(v => redactValue(v, context)) as unknown as T;
+    if (value && typeof value === 'object') {
+        const result: Record<string, unknown> = {};
+        for (const [key, v] of Object.entries(value)) {
+            result[redactText(key, context)] = SECRET_KEY.test(key) && v !== null && v !== undefined ? REDACTED : redactValue(v, context);
+        }
+        return result as T;
+    }
+    return value;
+}
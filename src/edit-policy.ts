@@ -0,0 +1,109 @@
+import { EditedFile } from './scan-script';
+
+/**
+ * File edit policy.
+ * Decides whether autopilot may accept a pending edit, based on the files it touches
+ * (`kayorama.protectedPaths`) and its size (`kayorama.maxLinesChanged`).
+ */
+
+export interface EditPolicyConfig {
+    /** Globs of files that always need a human to accept changes */
+    protectedPaths: string[];
+    /** Accepts touching more lines than this (added + removed) need a human, 0 for no limit */
+    maxLinesChanged: number;
+}
+
+export interface EditDecision {
+    allowed: boolean;
+    reason: string;
+    /** The files the decision is about */
+    files: string[];
+}
+
+export const DEFAULT_EDIT_POLICY: EditPolicyConfig = {
+    protectedPaths: ['.env*', '**/migrations/**', 'package-lock.json', '.github/workflows/**'],
+    maxLinesChanged: 500
+};
+
+function escapeRegExp(s: string): string {
+    return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Converts a glob to a case-insensitive regular expression that matches a path ending in it
+ * at a directory boundary, so `.env*` matches `config/.env.local`.
+ * Supports `*`, `?`, `**` and `{a,b}` (literal alternatives).
+ */
+export function globToRegExp(glob: string): RegExp {
+    const g = normalizePath(glob);
+    let re = '';
+    for (let i = 0; i < g.length; i++) {
+        const c = g[i];
+        if (c === '*' && g[i + 1] === '*') {
+            // '**/' spans any number of directories, any other '**' everything
+            if (g[i + 2] === '/') {
+                re += '(?:.*/)?';
+                i += 2;
+            } else {
+                re += '.*';
+                i++;
+            }
+        } else if (c === '*') {
+            re += '[^/]*';
+        } else if (c === '?') {
+            re += '[^/]';
+        } else if (c === '{' && g.indexOf('}', i) > i) {
+            const end = g.indexOf('}', i);
+            re += `(?:${g.slice(i + 1, end).split(',').map(escapeRegExp).join('|')})`;
+            i = end;
+        } else {
+            re += escapeRegExp(c);
+        }
+    }
+    return new RegExp(`(?:^|/)${re}$`, 'i');
+}
+
+function normalizePath(p: string): string {
+    return p.trim().replace(/\\/g, '/').replace(/^\.\//, '').replace(/^\//, '');
+}
+
+export class EditPolicy {
+    private globs: { source: string; re: RegExp }[] = [];
+
+    constructor(private config: EditPolicyConfig, errors: string[]) {
+        config.protectedPaths.forEach((glob, i) => {
+            if (typeof glob !== 'string' || !glob.trim()) {
+                errors.push(`protectedPaths[${i}]: must be a non-empty glob`);
+                return;
+            }
+            this.globs.push({ source: glob, re: globToRegExp(glob) });
+        });
+    }
+
+    get enabled(): boolean {
+        return this.globs.length > 0 || this.config.maxLinesChanged > 0;
+    }
+
+    /**
+     * Returns the first glob that protects the path, or null.
+     */
+    protectedBy(path: string): string | null {
+        const normalized = path.replace(/\\/g, '/');
+        return this.globs.find(g => g.re.test(normalized))?.source ?? null;
+    }
+
+    evaluate(files: EditedFile[]): EditDecision {
+        const protectedFiles = files.filter(f => this.protectedBy(f.path) !== null);
+        if (protectedFiles.length > 0) {
+            const globs = Array.from(new Set(protectedFiles.map(f => this.protectedBy(f.path))));
+            return { allowed: false, reason: `protected path (${globs.join(', ')})`, files: protectedFiles.map(f => f.path) };
+        }
+
+        const max = this.config.maxLinesChanged;
+        const changed = files.reduce((sum, f) => sum + (f.added || 0) + (f.removed || 0), 0);
+        if (max > 0 && changed > max) {
+            return { allowed: false, reason: `${changed} lines changed (limit ${max})`, files: files.map(f => f.path) };
+        }
+        return { allowed: true, reason: 'no protected files', files: files.map(f => f.path) };
+    }
+}
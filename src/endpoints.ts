@@ -0,0 +1,132 @@
+/**
+ * DevTools endpoints beyond the local debugging port: a browser-hosted workbench (code-server
+ * or a vscode.dev-style build in a headless Chrome) or an editor reachable through an SSH tunnel.
+ * Configured in `kayorama.endpoints`; without any, the local port is discovered (port-discovery.ts).
+ */
+
+export interface CDPEndpoint {
+    /** Prefixes the ids of the endpoint's sessions; the port for discovered local endpoints */
+    id: string;
+    host: string;
+    port: number;
+    /** A page's webSocketDebuggerUrl, connected directly instead of listing /json/list */
+    wsUrl: string | null;
+    /** Timeout of /json/list */
+    listTimeoutMs: number;
+    /** WebSocket handshake timeout */
+    connectTimeoutMs: number;
+    /** Origins whose http(s) targets count as workbench targets, `*` matching within the host */
+    allowedOrigins: string[];
+    /** Set for endpoints from `kayorama.endpoints` */
+    configured: boolean;
+}
+
+export const LOCAL_HOST = '127.0.0.1';
+export const LOCAL_LIST_TIMEOUT_MS = 300;
+export const DEFAULT_LIST_TIMEOUT_MS = 2000;
+export const DEFAULT_CONNECT_TIMEOUT_MS = 5000;
+
+/**
+ * A discovered port on this machine. Web pages never count as workbench targets there.
+ */
+export function localEndpoint(port: number): CDPEndpoint {
+    return {
+        id: String(port), host: LOCAL_HOST, port, wsUrl: null,
+        listTimeoutMs: LOCAL_LIST_TIMEOUT_MS, connectTimeoutMs: DEFAULT_CONNECT_TIMEOUT_MS, allowedOrigins: [], configured: false
+    };
+}
+
+const ORIGIN_PATTERN = /^(https?):\/\/([a-z0-9*.-]+|\[[0-9a-f:]+\])(:\d+)?$/;
+
+function originRegExp(pattern: string): RegExp {
+    const source = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[a-z0-9-.]*');
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Returns true if the origin of `url` matches one of the patterns, e.g. `https://code.example.com`
+ * or `https://*.vscode-cdn.net`. A pattern without a port only matches the scheme's default port.
+ */
+export function originAllowed(url: string, patterns: string[]): boolean {
+    let origin: string;
+    try {
+        origin = new URL(url).origin.toLowerCase();
+    } catch (e) {
+        return false;
+    }
+    return patterns.some(p => originRegExp(p.toLowerCase().replace(/\/+$/, '')).test(origin));
+}
+
+function positiveNumber(value: unknown, fallback: number, where: string, errors: string[]): number {
+    if (value === undefined) return fallback;
+    if (typeof value === 'number' && value > 0) return value;
+    errors.push(`${where} must be a positive number`);
+    return fallback;
+}
+
+/**
+ * Validates `kayorama.endpoints`. Unusable entries are reported in `errors` and left out.
+ */
+export function parseEndpoints(raw: unknown, errors: string[]): CDPEndpoint[] {
+    if (raw === undefined || raw === null) return [];
+    if (!Array.isArray(raw)) {
+        errors.push('kayorama.endpoints must be an array');
+        return [];
+    }
+
+    const endpoints: CDPEndpoint[] = [];
+    raw.forEach((entry, i) => {
+        const where = `endpoints[${i}]`;
+        if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+            errors.push(`${where} must be an object`);
+            return;
+        }
+        const e = entry as Record<string, unknown>;
+        const entryErrors: string[] = [];
+
+        let wsUrl: string | null = null;
+        let host = LOCAL_HOST;
+        let port = 0;
+        if (e.wsUrl !== undefined) {
+            try {
+                const url = new URL(String(e.wsUrl));
+                if (url.protocol !== 'ws:' && url.protocol !== 'wss:') throw new Error();
+                wsUrl = url.href;
+                host = url.hostname;
+                port = Number(url.port) || (url.protocol === 'wss:' ? 443 : 80);
+            } catch (err) {
+                entryErrors.push('wsUrl must be a ws:// or wss:// URL');
+            }
+        } else {
+            if (e.host !== undefined) {
+                if (typeof e.host === 'string' && e.host.trim()) host = e.host.trim();
+                else entryErrors.push('host must be a non-empty string');
+            }
+            if (typeof e.port === 'number' && Number.isInteger(e.port) && e.port > 0 && e.port <= 65535) port = e.port;
+            else entryErrors.push('port must be a port number (or set wsUrl)');
+        }
+
+        let allowedOrigins: string[] = [];
+        if (e.allowedOrigins !== undefined) {
+            const list = Array.isArray(e.allowedOrigins) ? e.allowedOrigins : [null];
+            allowedOrigins = list.filter(o => {
+                const ok = typeof o === 'string' && ORIGIN_PATTERN.test(o.trim().toLowerCase().replace(/\/+$/, ''));
+                if (!ok) entryErrors.push(`allowedOrigins: ${JSON.stringify(o)} is not an origin like https://code.example.com`);
+                return ok;
+            }).map(o => o.trim());
+        }
+
+        const name = typeof e.name === 'string' && e.name.trim() ? e.name.trim() : `${host}:${port}`;
+        if (endpoints.some(other => other.id === name)) entryErrors.push(`name "${name}" is used by another endpoint`);
+
+        const listTimeoutMs = positiveNumber(e.listTimeoutMs, DEFAULT_LIST_TIMEOUT_MS, 'listTimeoutMs', entryErrors);
+        const connectTimeoutMs = positiveNumber(e.connectTimeoutMs, DEFAULT_CONNECT_TIMEOUT_MS, 'connectTimeoutMs', entryErrors);
+
+        if (entryErrors.length > 0) {
+            errors.push(...entryErrors.map(err => `${where}: ${err}`));
+            return;
+        }
+        endpoints.push({ id: name, host, port, wsUrl, listTimeoutMs, connectTimeoutMs, allowedOrigins, configured: true });
+    });
+    return endpoints;
+}
@@ -1,7 +1,40 @@
 import * as vscode from 'vscode';
-import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
 import * as path from 'path';
-import { CDPClient } from './cdp-client';
+import { CDPClient, CDPConnectionEvent, CDPSession, TargetListEntry } from './cdp-client';
+import { CDPEventMap } from './cdp-protocol';
+import { ConnectionSupervisor } from './cdp-supervisor';
+import { CDPProtocolError } from './cdp-errors';
+import { ActionCategory, ClickRule, CompiledRule, RuleEffect, compileRule, loadRules, rulesForTarget } from './rules';
+import { AcceptMode, ClickMode, ProfileSettings, ProfileState, matchesTarget, resolveProfiles } from './profiles';
+import {
+    CLICK_CANDIDATE_SCRIPT, CandidateDetails, DEFAULT_COMMAND_SELECTORS, EditedFile, DISCONNECT_OBSERVER_SCRIPT, OBSERVER_BINDING, OBSERVER_STATUS_SCRIPT, RESCAN_SCRIPT,
+    LOCATE_CANDIDATE_SCRIPT, TRUSTED_CLICK_RESULT_SCRIPT, SHADOW_MARK_SCRIPT, CLEAR_SHADOW_MARK_SCRIPT, buildBenchmarkScript, buildClickScript, buildObserverScript,
+    buildWindowOwnershipScript, TEACH_BINDING, STOP_TEACH_SCRIPT, buildTeachScript, isCandidateDetails,
+    CONFIRM_MARK_SCRIPT, CLEAR_CONFIRM_MARK_SCRIPT, CONFIRMED_CANDIDATE_SCRIPT, DECLINE_CANDIDATE_SCRIPT, CANDIDATE_DECLINED_SCRIPT
+} from './scan-script';
+import { AcceptJournal } from './journal';
+import { documentVersionStamp, reviewSession, trackFileChanges, undoLastAction } from './journal-ui';
+import { CommandPattern, CommandPolicy, DEFAULT_POLICY, NATIVE_TERMINAL_COMMANDS, PolicyAction, PolicyDecision } from './command-policy';
+import { NATIVE_SESSION, NativeCommand, NativeDispatcher, parseNativeCommands } from './native-dispatcher';
+import { PendingSignals } from './pending-signals';
+import { AcceptLimiter, DEFAULT_LIMITS, LimitViolation, elementSignature } from './accept-limiter';
+import { ShadowReport } from './shadow-report';
+import { DEFAULT_EDIT_POLICY, EditPolicy } from './edit-policy';
+import { discoverEndpoints, parsePortRanges } from './port-discovery';
+import { CDPEndpoint, DEFAULT_LIST_TIMEOUT_MS, LOCAL_HOST, LOCAL_LIST_TIMEOUT_MS, localEndpoint, parseEndpoints } from './endpoints';
+import { TeachDescriptor, isTeachDescriptor, proposeRules } from './teach';
+import { ActivityMonitor } from './activity-monitor';
+import { AcceptCountdown } from './accept-countdown';
+import { AcceptEvent, AutopilotStatus, EnableOptions, KayoramaApi, parseEnableOptions } from './api';
+import { JournalAction, JournalStrategy } from './journal';
+import { LOG_LEVELS, LogLevel, Logger, resolveLogFile } from './logger';
+import { redactValue } from './diagnostics';
+import { SESSION_STATE_KEY, SessionEnd, TASK_QUIET_MS, formatRemaining, restoreSession, sessionEndFor } from './timed-session';
+import { DEFAULT_STATS_OPTIONS, StatsEvent, StatsStore } from './stats';
+import { StatsPanel } from './stats-panel';
+import { CategoryConfig, CategoryLimiter, DEFAULT_CATEGORY_CONFIG, categoryRules, enabledRules, parseCategoryConfig } from './action-categories';
 
 /**
  * Kayorama Autopilot v8.0.0
@@ -14,55 +47,1237 @@ import { CDPClient } from './cdp-client';
 const outputChannel = vscode.window.createOutputChannel('Kayorama Autopilot');
 
 // --- LOGGING SYSTEM ---
-let logFilePath: string | null = null;
+const logger = new Logger(line => outputChannel.appendLine(line));
+let globalStoragePath: string | null = null;
 
-function initLogPath() {
-    if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-        logFilePath = path.join(vscode.workspace.workspaceFolders[0].uri.fsPath, 'kayorama-debug.log');
-    }
+/**
+ * Logs to `<globalStorage>/logs/kayorama.jsonl` unless `kayorama.logFile` names another file
+ * (relative paths are taken from the first workspace folder, see resolveLogFile).
+ */
+function reloadLogger() {
+    const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+    const custom = config.get<string>('logFile', '').trim();
+    const inspected = config.inspect<string>('logFile');
+    const fromUserSettings = inspected?.workspaceValue === undefined && inspected?.workspaceFolderValue === undefined;
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? null;
+    let file = custom ? resolveLogFile(custom, fromUserSettings, folder) : null;
+    if (custom && !file) log(`[LOG] Ignoring kayorama.logFile "${custom}": ${fromUserSettings ? 'relative paths need a workspace folder' : 'workspace settings can only name a file inside the workspace folder'}`, 'warn');
+    if (!file) file = globalStoragePath ? path.join(globalStoragePath, 'logs', 'kayorama.jsonl') : null;
+    const level = config.get<LogLevel>('logLevel', 'info');
+    logger.configure({
+        level: LOG_LEVELS.includes(level) ? level : 'info',
+        file,
+        maxBytes: config.get<number>('logMaxSizeKB', 1024) * 1024,
+        maxFiles: config.get<number>('logMaxFiles', 3)
+    });
 }
 
-function log(msg: string) {
-    const timestamp = new Date().toISOString().split('T')[1].slice(0, -1);
-    const line = `[${timestamp}] ${msg}`;
-    outputChannel.appendLine(line);
-
-    if (logFilePath) {
-        try {
-            fs.appendFileSync(logFilePath, line + '\n');
-        } catch (e) { }
-    }
+function log(msg: string, level: LogLevel = 'info') {
+    logger.log(level, msg);
 }
 
 const cdp = new CDPClient(log);
+const supervisor = new ConnectionSupervisor(cdp, log);
+const nativeDispatcher = new NativeDispatcher(cmd => activityMonitor.ownAction(() => vscode.commands.executeCommand(cmd)), log);
+const pendingSignals = new PendingSignals();
 
 let pollingInterval: ReturnType<typeof setInterval> | null = null;
-let connectionInterval: ReturnType<typeof setInterval> | null = null;
 let statusBarItem: vscode.StatusBarItem;
 let isEnabled = false;
+let journal: AcceptJournal | null = null;
+let stats: StatsStore | null = null;
 
 // Configuration
 const CONFIG_SECTION = 'kayorama';
 const DEFAULT_PORT = 9000;
+const DEFAULT_PORT_RANGE = '9000-9010,9222-9229';
 const POLL_MS = 500;
-const RECONNECT_MS = 5000;
+// Extensions can register commands late, so availability is re-probed now and then
+const COMMAND_PROBE_MS = 60000;
+
+// --- DEBUG PORT & WINDOW SCOPE ---
+// Rendered into this window's status bar item, so its workbench target can be told apart from other windows
+const windowMarker = `kayorama-${Math.random().toString(36).slice(2, 10)}`;
+let userDataDirs: string[] = [];
+let activeEndpoint: CDPEndpoint | null = null;
+// kayorama.endpoints; when set, they are used instead of discovering the local port
+let configuredEndpoints: CDPEndpoint[] = [];
+// This window's workbench target and the webviews embedded in it
+let ownPageId: string | null = null;
+let ownWebviewIds = new Set<string>();
+let windowScopeWarned = false;
+
+function globalMode(): boolean {
+    return vscode.workspace.getConfiguration(CONFIG_SECTION).get<boolean>('globalMode', false);
+}
+
+function reloadEndpoints() {
+    const errors: string[] = [];
+    configuredEndpoints = parseEndpoints(vscode.workspace.getConfiguration(CONFIG_SECTION).get('endpoints', []), errors);
+    errors.forEach(e => log(`[ENDPOINT ERROR] ${e}`, 'warn'));
+    if (errors.length > 0) {
+        vscode.window.showWarningMessage(`Kayorama: ${errors.length} problem(s) in kayorama.endpoints. See the output channel for details.`);
+    }
+}
+
+function resetWindowScope() {
+    activeEndpoint = null;
+    ownPageId = null;
+    ownWebviewIds = new Set();
+}
+
+/**
+ * Target filter part: outside global mode, only workbench pages (until this window's page is
+ * known) and the targets embedded in this window's page are connected.
+ */
+function inWindowScope(target: TargetListEntry): boolean {
+    if (globalMode()) return true;
+    if (target.type === 'page') return ownPageId === null || target.id === ownPageId;
+    if (ownPageId === null) return false;
+    const webviewId = /[?&]id=([^&#]+)/.exec(target.url);
+    return target.parentId === ownPageId || (!!webviewId && ownWebviewIds.has(decodeURIComponent(webviewId[1])));
+}
+
+/**
+ * Finds this window's workbench page among the connected pages of `endpoint` by the marker in the
+ * status bar (or, failing that, a unique workspace name in the title) and drops the other pages.
+ * Returns false if no page could be identified.
+ */
+async function identifyOwnWindow(endpoint: CDPEndpoint): Promise<boolean> {
+    const pages = cdp.getSessions().filter(s => s.type === 'page' && s.endpoint === endpoint.id);
+    const script = buildWindowOwnershipScript(windowMarker);
+    const results = await Promise.all(pages.map(s => cdp.evaluate(s.id, script).then(r => r?.result?.value, () => null)));
+
+    let index = results.findIndex(r => r?.own);
+    if (index < 0 && vscode.workspace.name) {
+        const byTitle = pages.map((s, i) => s.title.includes(vscode.workspace.name!) ? i : -1).filter(i => i >= 0);
+        if (byTitle.length === 1) index = byTitle[0];
+    }
+    if (index < 0) {
+        if (!windowScopeWarned) {
+            log(`[WINDOW] Could not tell which of ${pages.length} workbench target(s) on ${describeEndpoint(endpoint)} is this window. Set kayorama.globalMode to act in all windows.`, 'warn');
+            windowScopeWarned = true;
+        }
+        return false;
+    }
+
+    const own = pages[index];
+    const webviewIds: string[] = results[index]?.webviewIds || [];
+    const changed = own.targetId !== ownPageId || webviewIds.some(id => !ownWebviewIds.has(id));
+    if (own.targetId !== ownPageId) log(`[WINDOW] This window is "${own.title.substring(0, 40)}" on ${describeEndpoint(endpoint)}`);
+    ownPageId = own.targetId;
+    ownWebviewIds = new Set(webviewIds);
+    pages.filter(s => s !== own).forEach(s => cdp.disconnect(s.id));
+    // Pick up this window's webviews, which the filter only lets through now
+    if (changed) await cdp.scanAndConnect(endpoint);
+    return true;
+}
+
+function describeEndpoint(endpoint: CDPEndpoint): string {
+    if (!endpoint.configured) return `port ${endpoint.port}`;
+    return `endpoint "${endpoint.id}" (${endpoint.wsUrl || `${endpoint.host}:${endpoint.port}`})`;
+}
 
-export function activate(context: vscode.ExtensionContext) {
-    initLogPath();
+/**
+ * The local debugging ports that answer, most trustworthy first, with where each was found.
+ */
+async function discoverLocalEndpoints(): Promise<{ endpoint: CDPEndpoint; source: string }[]> {
+    const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+    const configuredPort = config.get<number>('cdpPort', DEFAULT_PORT);
+    if (!config.get<boolean>('autoDiscoverPort', true)) return [{ endpoint: localEndpoint(configuredPort), source: 'setting' }];
+
+    const errors: string[] = [];
+    const found = await discoverEndpoints({
+        host: LOCAL_HOST,
+        configuredPort,
+        ranges: parsePortRanges(config.get<string>('portRange', DEFAULT_PORT_RANGE), errors),
+        userDataDirs,
+        timeoutMs: LOCAL_LIST_TIMEOUT_MS
+    });
+    errors.forEach(e => log(`[PORT ERROR] ${e}`, 'warn'));
+    return found.map(e => ({ endpoint: localEndpoint(e.port), source: `${e.source}${e.browser ? `, ${e.browser}` : ''}` }));
+}
+
+/**
+ * Connects to the configured endpoints, or the local debug port (discovering it first if
+ * needed), and (outside global mode) to this window's targets only. Returns the endpoint in
+ * use, or null if none was reachable.
+ */
+async function connectCDP(): Promise<CDPEndpoint | null> {
+    if (activeEndpoint !== null && cdp.sessionCount > 0) {
+        await cdp.scanAndConnect(activeEndpoint);
+        if (!globalMode()) await identifyOwnWindow(activeEndpoint);
+        return activeEndpoint;
+    }
+
+    // Nothing connected: the editor may have restarted on another port, start over
+    resetWindowScope();
+    const candidates = configuredEndpoints.length > 0
+        ? configuredEndpoints.map(endpoint => ({ endpoint, source: 'kayorama.endpoints' }))
+        : await discoverLocalEndpoints();
+
+    // Several editor instances may listen; the right one is where this window lives
+    for (const { endpoint, source } of candidates) {
+        await cdp.scanAndConnect(endpoint);
+        if (globalMode() || await identifyOwnWindow(endpoint)) {
+            log(`[PORT] Using ${describeEndpoint(endpoint)} (${source})`);
+            activeEndpoint = endpoint;
+            return activeEndpoint;
+        }
+        cdp.getSessions().filter(s => s.endpoint === endpoint.id).forEach(s => cdp.disconnect(s.id));
+    }
+    return null;
+}
+
+// --- CLICK RULES ---
+let clickRules: CompiledRule[] = [];
+const clickScriptCache = new Map<string, string>();
+// Bumped whenever cached scripts are dropped, so installed observers get replaced
+let scriptsVersion = 0;
+
+function invalidateScripts() {
+    clickScriptCache.clear();
+    scriptsVersion++;
+}
+
+function reloadRules() {
+    const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+    const { rules, errors } = loadRules(config.get('rules', []), config.get<boolean>('useBuiltinRules', true));
+    clickRules = rules;
+    invalidateScripts();
+    log(`Rules loaded: ${rules.length} active, ${errors.length} invalid.`);
+    if (errors.length > 0) {
+        errors.forEach(e => log(`[RULE ERROR] ${e}`, 'warn'));
+        vscode.window.showWarningMessage(`Kayorama: ${errors.length} rule problem(s) found in settings. See the output channel for details.`);
+    }
+}
+
+/**
+ * Returns the global rules that apply to this session's target URL plus the rules of the
+ * enabled profiles the session belongs to, with a key identifying that combination.
+ */
+function sessionRules(session: CDPSession): { key: string; rules: CompiledRule[] } | null {
+    const profiles = profilesForTarget(session.url, session.title);
+    if (profiles.length === 0 && !scanUnmatchedTargets()) return null;
+
+    const globalRules = rulesForTarget(clickRules, session.url);
+    const rules = enabledRules(globalRules.concat(actionRules, ...profiles.map(p => p.rules)), actionCategories, heldCategories);
+    if (!rules.some(r => r.effect === 'allow')) return null;
+
+    const key = globalRules.map(r => clickRules.indexOf(r)).join(',') + '|' + profiles.map(p => p.profile.id).join(',');
+    return { key, rules };
+}
+
+/**
+ * Returns the (cached) poll-mode click script for a session.
+ */
+function clickScriptFor(session: CDPSession): string | null {
+    const target = sessionRules(session);
+    if (!target) return null;
+    let script = clickScriptCache.get(target.key);
+    if (!script) {
+        script = buildClickScript(target.rules, { commandSelectors: commandSelectors() });
+        clickScriptCache.set(target.key, script);
+    }
+    return script;
+}
+
+// --- OBSERVER MODE ---
+type DetectionMode = 'poll' | 'observer';
+
+// Session id -> observer installed in it (ws tells a reconnected session apart)
+const observedSessions = new Map<string, { key: string; ws: CDPSession['ws'] }>();
+// Sessions with a candidate being processed, so overlapping reports don't double-click
+const busySessions = new Set<string>();
+
+function detectionMode(): DetectionMode {
+    return vscode.workspace.getConfiguration(CONFIG_SECTION).get<DetectionMode>('detectionMode', 'observer');
+}
+
+/**
+ * Installs (or refreshes) the DOM observer in every session. Sessions where this fails
+ * are left out of `observedSessions` and keep being polled.
+ */
+async function ensureObservers() {
+    for (const session of cdp.getSessions()) {
+        const target = sessionRules(session);
+        if (!target) {
+            observedSessions.delete(session.id);
+            continue;
+        }
+        const key = `${scriptsVersion}:${target.key}`;
+        try {
+            if (observedSessions.get(session.id)?.ws !== session.ws) {
+                await cdp.send(session.id, 'Runtime.enable');
+                await cdp.send(session.id, 'Runtime.addBinding', { name: OBSERVER_BINDING });
+            }
+            const script = buildObserverScript(target.rules, { commandSelectors: commandSelectors() }, key);
+            const status = (await cdp.evaluate(session.id, script))?.result?.value;
+            if (status === 'installed' || status === 'current') {
+                if (status === 'installed') log(`[OBSERVER] Installed in "${session.title.substring(0, 40)}"`);
+                observedSessions.set(session.id, { key, ws: session.ws });
+            } else {
+                log(`[OBSERVER] Could not install in "${session.title.substring(0, 40)}" (${status}), polling instead`, 'warn');
+                observedSessions.delete(session.id);
+            }
+        } catch (e) {
+            // Targets that reject the binding are polled instead
+            if (e instanceof CDPProtocolError) log(`[OBSERVER] ${e.message}, polling "${session.title.substring(0, 40)}" instead`, 'warn');
+            observedSessions.delete(session.id);
+        }
+    }
+    const live = new Set(cdp.getSessions().map(s => s.id));
+    for (const id of observedSessions.keys()) {
+        if (!live.has(id)) observedSessions.delete(id);
+    }
+}
+
+async function removeObservers() {
+    observedSessions.clear();
+    await cdp.evaluateAll(DISCONNECT_OBSERVER_SCRIPT);
+}
+
+function onBindingCalled(params: CDPEventMap['Runtime.bindingCalled'], session: CDPSession) {
+    if (params.name !== OBSERVER_BINDING) return;
+    if (!isEnabled || !observedSessions.has(session.id)) return;
+    let info: unknown;
+    try {
+        info = JSON.parse(params.payload);
+    } catch (e) {
+        info = undefined;
+    }
+    if (!isCandidateDetails(info)) {
+        log(`[OBSERVER] Ignoring a malformed report from "${session.title.substring(0, 40)}"`, 'warn');
+        return;
+    }
+    processCandidate(session, info).catch(e => log(`[OBSERVER] Could not process a report from "${session.title.substring(0, 40)}": ${e.message}`, 'error'));
+}
+
+/**
+ * Compares the per-minute scan cost of poll mode and observer mode in every session.
+ */
+async function benchmarkDetection() {
+    outputChannel.show();
+    await connectCDP();
+    if (cdp.sessionCount === 0) {
+        vscode.window.showWarningMessage('Kayorama: No CDP sessions to benchmark. Is VS Code running with --remote-debugging-port?');
+        return;
+    }
+
+    const RUNS = 5;
+    log(`[BENCHMARK] Poll mode scans every ${POLL_MS}ms; observer mode scans on DOM changes only.`);
+    for (const session of cdp.getSessions()) {
+        const target = sessionRules(session);
+        if (!target) continue;
+        const name = session.title.substring(0, 40);
+        try {
+            const script = buildBenchmarkScript(target.rules, { commandSelectors: commandSelectors() }, RUNS);
+            // A scan of a large workbench can take a while; don't let the default timeout cut it short
+            const pollScanMs: number = (await cdp.evaluate(session.id, script, { timeoutMs: 30000 }))?.result?.value;
+            const pollPerMinute = pollScanMs * (60000 / POLL_MS);
+            const status = (await cdp.evaluate(session.id, OBSERVER_STATUS_SCRIPT))?.result?.value;
+
+            let observerText = 'observer not installed (enable it with kayorama.detectionMode = "observer")';
+            if (status) {
+                const minutes = Math.max((status.now - status.stats.since) / 60000, 1 / 60);
+                const perMinute = status.stats.totalMs / minutes;
+                const perScan = status.stats.scans ? status.stats.totalMs / status.stats.scans : 0;
+                observerText = `observer ${perMinute.toFixed(1)}ms/min (${status.stats.scans} scans in ${minutes.toFixed(1)}min, ${perScan.toFixed(2)}ms/scan)`;
+            }
+            log(`[BENCHMARK] "${name}": poll ${pollPerMinute.toFixed(1)}ms/min (${pollScanMs.toFixed(2)}ms/scan) vs ${observerText}`);
+        } catch (e: any) {
+            log(`[BENCHMARK] "${name}": failed (${e.message})`);
+        }
+    }
+}
+
+// --- COMMAND POLICY ---
+let commandPolicy = new CommandPolicy(DEFAULT_POLICY);
+// Remembered outcome per command text, so a blocked button doesn't re-prompt on every poll
+const commandDecisions = new Map<string, 'allow' | 'deny' | 'pending'>();
+let nativeTerminalSkipLogged = false;
+
+function reloadCommandPolicy() {
+    const config = vscode.workspace.getConfiguration(`${CONFIG_SECTION}.commandPolicy`);
+    const errors: string[] = [];
+    commandPolicy = new CommandPolicy({
+        enabled: config.get<boolean>('enabled', DEFAULT_POLICY.enabled),
+        deny: config.get<CommandPattern[]>('deny', []),
+        allow: config.get<string[]>('allow', []),
+        defaultAction: config.get<PolicyAction>('defaultAction', DEFAULT_POLICY.defaultAction)
+    }, errors);
+    commandDecisions.clear();
+    invalidateScripts();
+    errors.forEach(e => log(`[POLICY ERROR] ${e}`, 'warn'));
+    if (errors.length > 0) {
+        vscode.window.showWarningMessage(`Kayorama: ${errors.length} invalid command policy pattern(s). See the output channel for details.`);
+    }
+}
+
+function commandSelectors(): string[] {
+    return vscode.workspace.getConfiguration(CONFIG_SECTION).get<string[]>('commandPolicy.commandSelectors', DEFAULT_COMMAND_SELECTORS);
+}
+
+/**
+ * The command policy's verdict on a candidate, or null if it proposes no terminal command.
+ */
+function commandDecision(info: CandidateDetails): PolicyDecision | null {
+    if (!commandPolicy.enabled) return null;
+    if (info.command) return commandPolicy.evaluate(info.command);
+    return info.commandAmbiguous ? commandPolicy.evaluateAmbiguous() : null;
+}
+
+// Steps whose command is ambiguous are told apart by their button
+function commandKey(info: CandidateDetails): string {
+    return info.command ?? `one of several commands next to ${info.text.trim()}`;
+}
+
+/**
+ * Applies the command policy to a candidate that proposes a terminal command.
+ * Returns true if the candidate may be clicked now; `confirm` prompts the user and
+ * lets a later poll click it once approved (see useCommandApproval).
+ */
+function checkCommandPolicy(session: CDPSession, info: CandidateDetails): boolean {
+    const decision = commandDecision(info);
+    if (!decision) return true;
+    const command = commandKey(info);
+    const short = command.replace(/\s+/g, ' ').substring(0, 80);
+    const cached = commandDecisions.get(command);
+    if (cached === 'pending' || cached === 'deny') return false;
+    if (cached === 'allow') return true;
+
+    const pattern = decision.pattern ? ` /${decision.pattern}/` : '';
+    log(`[POLICY] ${decision.action.toUpperCase()} "${short}" - ${decision.reason}${pattern}`);
+
+    if (decision.action === 'allow') return true;
+
+    if (decision.action === 'deny') {
+        commandDecisions.set(command, 'deny');
+        recordCandidate('block', session, info, `command policy: ${decision.reason}`);
+        vscode.window.showWarningMessage(`Kayorama blocked an agent command (${decision.reason}): ${short}`);
+        return false;
+    }
+
+    commandDecisions.set(command, 'pending');
+    vscode.window.showWarningMessage(`Kayorama: The agent wants to run "${short}" (${decision.reason}).`, 'Run', 'Skip').then(choice => {
+        commandDecisions.set(command, choice === 'Run' ? 'allow' : 'deny');
+        log(`[POLICY] User ${choice === 'Run' ? 'approved' : 'refused'} "${short}"`);
+        if (choice !== 'Run') recordCandidate('skip', session, info, 'command refused by user');
+        // Observers only report on DOM changes, so ask them for the approved candidate again
+        if (choice === 'Run') cdp.evaluateAll(RESCAN_SCRIPT);
+    });
+    return false;
+}
+
+/**
+ * A user's approval is good for one click; it is used up once the click went through,
+ * so a click that a later check holds back still has it.
+ */
+function useCommandApproval(info: CandidateDetails) {
+    const command = commandKey(info);
+    if (commandDecisions.get(command) !== 'allow') return;
+    commandDecisions.delete(command);
+    log(`[POLICY] ALLOW "${command.replace(/\s+/g, ' ').substring(0, 80)}" - approved by user`);
+}
+
+// --- EDIT POLICY ---
+let editPolicy = new EditPolicy(DEFAULT_EDIT_POLICY, []);
+// Blocked edits already reported, so the notification is shown once rather than on every poll
+const editPolicyNotified = new Set<string>();
+
+function reloadEditPolicy() {
+    const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+    const errors: string[] = [];
+    editPolicy = new EditPolicy({
+        protectedPaths: config.get<string[]>('protectedPaths', DEFAULT_EDIT_POLICY.protectedPaths),
+        maxLinesChanged: config.get<number>('maxLinesChanged', DEFAULT_EDIT_POLICY.maxLinesChanged)
+    }, errors);
+    editPolicyNotified.clear();
+    errors.forEach(e => log(`[EDIT POLICY ERROR] ${e}`, 'warn'));
+}
+
+/**
+ * Returns false (and asks for a human review) if the pending edit touches a protected file
+ * or is too large. Edits whose files are unknown are let through.
+ */
+function checkEditPolicy(files: EditedFile[], source: string, strategy: JournalStrategy): boolean {
+    if (!editPolicy.enabled || files.length === 0) return true;
+    const decision = editPolicy.evaluate(files);
+    if (decision.allowed) return true;
+
+    const key = `${source}|${decision.reason}|${decision.files.join(',')}`;
+    if (!editPolicyNotified.has(key)) {
+        editPolicyNotified.add(key);
+        log(`[EDIT POLICY] Skipped accept in "${source.substring(0, 40)}": ${decision.reason} - ${decision.files.join(', ')}`);
+        recordStat({ kind: 'block', strategy, session: source, reason: `edit policy: ${decision.reason}` });
+        vscode.window.showWarningMessage(`Kayorama: Not auto-accepting changes to ${decision.files.join(', ')} (${decision.reason}). Please review them yourself.`);
+    }
+    return false;
+}
+
+/**
+ * Files a native accept command may touch: the active editor (inline suggestions, inline chat),
+ * dirty visible editors and the files of chat editing sessions.
+ */
+function nativePendingEdits(): EditedFile[] {
+    const paths = new Set<string>();
+    const active = vscode.window.activeTextEditor?.document;
+    if (active?.uri.scheme === 'file') paths.add(active.uri.fsPath);
+    for (const editor of vscode.window.visibleTextEditors) {
+        if (editor.document.isDirty && editor.document.uri.scheme === 'file') paths.add(editor.document.uri.fsPath);
+    }
+    for (const doc of vscode.workspace.textDocuments) {
+        // Chat editing models keep the original file's path
+        if (doc.uri.scheme.startsWith('chat-editing')) paths.add(doc.uri.path);
+    }
+    return Array.from(paths).map(p => ({ path: vscode.workspace.asRelativePath(p, false), added: null, removed: null }));
+}
+
+// --- ACCEPT LIMITS ---
+const acceptLimiter = new AcceptLimiter(DEFAULT_LIMITS);
+
+function reloadLimits() {
+    const config = vscode.workspace.getConfiguration(`${CONFIG_SECTION}.limits`);
+    acceptLimiter.configure({
+        enabled: config.get<boolean>('enabled', DEFAULT_LIMITS.enabled),
+        maxPerMinute: config.get<number>('maxPerMinute', DEFAULT_LIMITS.maxPerMinute),
+        maxPerElement: config.get<number>('maxPerElement', DEFAULT_LIMITS.maxPerElement),
+        cooldownSeconds: config.get<number>('cooldownSeconds', DEFAULT_LIMITS.cooldownSeconds)
+    });
+}
+
+/**
+ * Returns false (after tripping the breaker) if this accept would exceed a limit.
+ */
+function withinLimits(source: string, signature: string): boolean {
+    const wasTripped = acceptLimiter.tripped;
+    const violation = acceptLimiter.check(source, signature);
+    if (!violation) return true;
+    if (!wasTripped) {
+        recordStat({ kind: 'block', strategy: source === 'native' ? 'native' : 'cdp', session: source === 'native' ? NATIVE_SESSION : source, reason: `limit: ${violation.limit}` });
+        tripBreaker(violation);
+    }
+    return false;
+}
+
+/**
+ * Turns autopilot off and leaves the status bar in the error state until it is re-enabled.
+ */
+async function tripBreaker(violation: LimitViolation) {
+    log(`[BREAKER] Autopilot stopped: ${violation.message}. Element: ${violation.signature}`, 'warn');
+    isEnabled = false;
+    clearSession();
+    saveSession();
+    stopPolling();
+    updateStatusBar();
+
+    const choice = await vscode.window.showErrorMessage(
+        `Kayorama: Autopilot was stopped because ${violation.message}. The agent may be stuck in a loop.`,
+        'Re-enable', 'Adjust Limits'
+    );
+    if (choice === 'Re-enable' && !isEnabled) toggleAutopilot();
+    else if (choice === 'Adjust Limits') vscode.commands.executeCommand('workbench.action.openSettings', `${CONFIG_SECTION}.limits`);
+}
+
+// --- ACTION CATEGORIES ---
+let actionCategories: CategoryConfig = DEFAULT_CATEGORY_CONFIG;
+// Allow rules made from the categories' keywords and selectors
+let actionRules: CompiledRule[] = [];
+const categoryLimiter = new CategoryLimiter(DEFAULT_CATEGORY_CONFIG);
+// Categories whose hourly limit was reported, so it is logged once rather than on every scan
+const categoryLimitNotified = new Set<ActionCategory>();
+// Categories at their hourly limit; their allow rules are left out of the scripts until it frees up
+let heldCategories: ActionCategory[] = [];
+let categoryReleaseTimer: ReturnType<typeof setTimeout> | null = null;
+
+function reloadActions() {
+    const errors: string[] = [];
+    actionCategories = parseCategoryConfig(vscode.workspace.getConfiguration(CONFIG_SECTION).get('actions'), errors);
+    actionRules = categoryRules(actionCategories, errors);
+    categoryLimiter.configure(actionCategories);
+    categoryLimitNotified.clear();
+    invalidateScripts();
+    updateHeldCategories();
+    errors.forEach(e => log(`[ACTIONS ERROR] ${e}`, 'warn'));
+    if (errors.length > 0) {
+        vscode.window.showWarningMessage(`Kayorama: ${errors.length} problem(s) in kayorama.actions. See the output channel for details.`);
+    }
+}
+
+/**
+ * Rebuilds the scripts when a category reaches its hourly limit or gets clicks back, and
+ * schedules the next check for when the first held category frees up.
+ */
+function updateHeldCategories() {
+    if (categoryReleaseTimer) clearTimeout(categoryReleaseTimer);
+    categoryReleaseTimer = null;
+    const held = categoryLimiter.held();
+    const release = categoryLimiter.nextRelease();
+    if (release !== null) categoryReleaseTimer = setTimeout(updateHeldCategories, Math.max(0, release - Date.now()) + 100);
+    if (held.join(',') === heldCategories.join(',')) return;
+
+    held.filter(c => !heldCategories.includes(c)).forEach(c =>
+        log(`[ACTIONS] ${c} limit reached (${actionCategories[c].maxPerHour} per hour), its buttons are left alone until the hour has passed`, 'warn'));
+    heldCategories.filter(c => !held.includes(c)).forEach(c => log(`[ACTIONS] ${c} is within its hourly limit again`));
+    heldCategories = held;
+    invalidateScripts();
+    // Observers only rescan on DOM changes; reinstalling them with the new rules scans now
+    if (isEnabled && detectionMode() === 'observer') ensureObservers();
+}
+
+/**
+ * Returns false while the candidate's category has used up its clicks for the hour. Held
+ * categories are left out of the scripts; this catches a report sent before that.
+ */
+function withinCategoryLimit(session: CDPSession, info: CandidateDetails): boolean {
+    if (categoryLimiter.allows(info.category)) {
+        categoryLimitNotified.delete(info.category);
+        return true;
+    }
+    if (!categoryLimitNotified.has(info.category)) {
+        categoryLimitNotified.add(info.category);
+        log(`[ACTIONS] ${info.category} limit reached (${actionCategories[info.category].maxPerHour} per hour), not clicking "${info.text.trim()}" in "${session.title.substring(0, 40)}"`, 'warn');
+        recordCandidate('block', session, info, `limit: ${info.category} per hour`);
+    }
+    return false;
+}
+
+// --- ACTIVITY PAUSE ---
+const DEFAULT_IDLE_MS = 2000;
+const activityMonitor = new ActivityMonitor(DEFAULT_IDLE_MS);
+let pausedForActivity = false;
+
+function reloadActivityMonitor() {
+    activityMonitor.configure(vscode.workspace.getConfiguration(CONFIG_SECTION).get<number>('activityIdleMs', DEFAULT_IDLE_MS));
+}
+
+/**
+ * True while the user has been active within the idle period. Observers are asked to rescan
+ * when the pause ends, since the reports they sent during it are not repeated.
+ */
+function activityPaused(): boolean {
+    const paused = activityMonitor.pausedBy() !== null;
+    if (pausedForActivity && !paused && observedSessions.size > 0) cdp.evaluateAll(RESCAN_SCRIPT);
+    pausedForActivity = paused;
+    return paused;
+}
+
+// --- SHADOW MODE ---
+const shadowReport = new ShadowReport();
+// Session id -> signature of the last would-be click, so a candidate that stays put is logged once
+const shadowSeen = new Map<string, string>();
+let lastShadowNativePlan = '';
+
+function shadowMode(): boolean {
+    return enableOverrides.shadow ?? vscode.workspace.getConfiguration(CONFIG_SECTION).get<boolean>('shadowMode', false);
+}
+
+/**
+ * Outlines the candidate and logs what would have been clicked, without clicking.
+ */
+async function shadowCandidate(session: CDPSession, info: CandidateDetails) {
+    await cdp.evaluate(session.id, SHADOW_MARK_SCRIPT).catch(() => null);
+    const signature = elementSignature(info);
+    if (shadowSeen.get(session.id) === signature) return;
+    shadowSeen.set(session.id, signature);
+
+    const policy = commandDecision(info);
+    const edit = editPolicy.enabled && info.files?.length ? editPolicy.evaluate(info.files) : null;
+    const runnerUps = (info.runnerUps || []).map(r => `${r.ruleId}:${r.score} <${r.tagName}> "${r.text}"`).join(', ') || 'none';
+    log(`[SHADOW] Would click in "${session.title.substring(0, 40)}": Score:${info.score} Rule:${info.ruleId} <${info.tagName}> Text:"${info.text}" Label:"${info.label}"` +
+        (policy ? ` Policy:${policy.action} (${policy.reason})` : '') +
+        (edit && !edit.allowed ? ` Edit:blocked (${edit.reason}: ${edit.files.join(', ')})` : '') + ` Runner-ups: ${runnerUps}`);
+    shadowReport.record({ kind: 'click', session: session.title, element: info, policy: policy ? policy.action : null });
+}
+
+/**
+ * Logs the native commands that would have run, once per change of the plan.
+ */
+function shadowNative(planned: NativeCommand[]) {
+    const plan = planned.map(c => c.command).join(',');
+    if (plan === lastShadowNativePlan) return;
+    lastShadowNativePlan = plan;
+    for (const { command } of planned) {
+        log(`[SHADOW] Would run native command: ${command}`);
+        shadowReport.record({ kind: 'native', command });
+    }
+}
+
+function onShadowModeChanged() {
+    shadowSeen.clear();
+    lastShadowNativePlan = '';
+    // Each dry run gets a report of its own
+    if (isEnabled && shadowMode()) shadowReport.clear();
+    else cdp.evaluateAll(CLEAR_SHADOW_MARK_SCRIPT);
+    updateStatusBar();
+}
+
+async function showShadowReport() {
+    const doc = await vscode.workspace.openTextDocument({ language: 'markdown', content: shadowReport.render() });
+    await vscode.window.showTextDocument(doc, { preview: true });
+}
+
+// --- TEACH MODE ---
+// While teaching, autopilot doesn't click and every target is connected, matched by a profile or not
+let teaching = false;
+const TEACH_TIMEOUT_MS = 120000;
+
+/**
+ * Lets the user click the button autopilot should press (allow) or never press (deny),
+ * then proposes rules for it and saves the chosen one to the settings.
+ */
+async function teach(effect: RuleEffect) {
+    if (teaching) return;
+    teaching = true;
+    try {
+        await connectCDP();
+        if (cdp.sessionCount === 0) {
+            vscode.window.showWarningMessage('Kayorama: Teach mode needs a CDP connection. Is VS Code running with --remote-debugging-port?');
+            return;
+        }
+        const prompt = effect === 'allow'
+            ? 'Kayorama: Click the button autopilot should press (Esc to cancel)'
+            : 'Kayorama: Click the button autopilot must never press (Esc to cancel)';
+        const clicked = await waitForTeachClick(prompt);
+        if (clicked) await saveTaughtRule(clicked.descriptor, effect, clicked.session);
+    } finally {
+        teaching = false;
+        await cdp.evaluateAll(STOP_TEACH_SCRIPT);
+    }
+}
+
+async function installTeachOverlays(prompt: string): Promise<number> {
+    let installed = 0;
+    for (const session of cdp.getSessions()) {
+        try {
+            await cdp.send(session.id, 'Runtime.enable');
+            await cdp.send(session.id, 'Runtime.addBinding', { name: TEACH_BINDING });
+            if ((await cdp.evaluate(session.id, buildTeachScript(prompt)))?.result?.value === 'installed') installed++;
+        } catch (e) {
+            // Targets that reject the binding can't be taught
+        }
+    }
+    return installed;
+}
+
+/**
+ * Shows the overlay in every target and resolves with the first click, or null if the user
+ * pressed Escape, cancelled the notification or did nothing for TEACH_TIMEOUT_MS.
+ */
+function waitForTeachClick(prompt: string): Promise<{ session: CDPSession; descriptor: TeachDescriptor } | null> {
+    return Promise.resolve(vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: prompt, cancellable: true }, async (progress, token) => {
+        let unsubscribe = () => { };
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        try {
+            return await new Promise<{ session: CDPSession; descriptor: TeachDescriptor } | null>(resolve => {
+                unsubscribe = cdp.on('Runtime.bindingCalled', (params, session) => {
+                    if (params.name !== TEACH_BINDING) return;
+                    let payload: any;
+                    try {
+                        payload = JSON.parse(params.payload);
+                    } catch (e) {
+                        return;
+                    }
+                    if (payload?.cancelled === true) resolve(null);
+                    else if (isTeachDescriptor(payload)) resolve({ session, descriptor: payload });
+                    else log(`[TEACH] Ignoring a malformed report from "${session.title.substring(0, 40)}"`, 'warn');
+                });
+                token.onCancellationRequested(() => resolve(null));
+                timer = setTimeout(() => resolve(null), TEACH_TIMEOUT_MS);
+                installTeachOverlays(prompt).then(installed => {
+                    if (installed > 0) return;
+                    vscode.window.showWarningMessage('Kayorama: Could not show the teach overlay in any target.');
+                    resolve(null);
+                });
+            });
+        } finally {
+            unsubscribe();
+            clearTimeout(timer);
+        }
+    }));
+}
+
+async function saveTaughtRule(descriptor: TeachDescriptor, effect: RuleEffect, session: CDPSession) {
+    const name = descriptor.text || descriptor.ariaLabel || descriptor.title;
+    log(`[TEACH] Clicked <${descriptor.tagName}> "${name}" in "${session.title.substring(0, 40)}": ${JSON.stringify(descriptor)}`);
+    const proposals = proposeRules(descriptor, effect, session.url);
+    if (proposals.length === 0) {
+        vscode.window.showWarningMessage('Kayorama: The clicked element has no text, aria-label or title to build a rule from.');
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(proposals.map((p, i) => ({
+        label: p.label,
+        description: i === 0 ? `${p.description} (recommended)` : p.description,
+        detail: JSON.stringify(p.rule),
+        rule: p.rule
+    })), {
+        title: `Kayorama: ${effect === 'allow' ? 'Rule' : 'Deny rule'} for <${descriptor.tagName.toLowerCase()}> "${name.substring(0, 40)}"`,
+        placeHolder: 'Pick the rule to save'
+    });
+    if (!picked) return;
+
+    const errors: string[] = [];
+    if (!compileRule(picked.rule, picked.rule.id || 'taught', errors)) {
+        vscode.window.showErrorMessage(`Kayorama: The proposed rule is invalid: ${errors.join('; ')}`);
+        return;
+    }
+
+    const destinations = ruleDestinations();
+    const destination = destinations.length === 1
+        ? destinations[0]
+        : await vscode.window.showQuickPick(destinations, { placeHolder: 'Save the rule to...' });
+    if (!destination) return;
+
+    await appendRule(picked.rule, destination.target);
+    log(`[TEACH] Saved ${effect} rule to ${destination.label}: ${JSON.stringify(picked.rule)}`);
+
+    const unmatched = profilesForTarget(session.url, session.title).length === 0 && !scanUnmatchedTargets();
+    vscode.window.showInformationMessage(`Kayorama: Rule "${picked.rule.id}" saved to ${destination.label}.` +
+        (unmatched ? ' This target belongs to no enabled profile; turn on kayorama.scanUnmatchedTargets to use the rule there.' : ''));
+}
+
+function ruleDestinations(): { label: string; target: vscode.ConfigurationTarget }[] {
+    return [
+        ...(vscode.workspace.workspaceFolders ? [{ label: 'Workspace Settings', target: vscode.ConfigurationTarget.Workspace }] : []),
+        { label: 'User Settings', target: vscode.ConfigurationTarget.Global }
+    ];
+}
+
+/**
+ * Adds a rule to `kayorama.rules` at one settings level, keeping the rules already there.
+ */
+async function appendRule(rule: ClickRule, target: vscode.ConfigurationTarget) {
+    const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+    const inspected = config.inspect<ClickRule[]>('rules');
+    const current = (target === vscode.ConfigurationTarget.Workspace ? inspected?.workspaceValue : inspected?.globalValue) || [];
+    await config.update('rules', [...current, rule], target);
+}
+
+// --- CONFIRM MODE ---
+let acceptCountdown: AcceptCountdown;
+
+/**
+ * A mode passed to `enable` wins, then the first matching profile's accept mode, then
+ * `kayorama.acceptMode`. Native Mode (no session) skips the profiles.
+ */
+function acceptModeFor(session: CDPSession | null): AcceptMode {
+    if (enableOverrides.acceptMode) return enableOverrides.acceptMode;
+    const override = session ? profilesForTarget(session.url, session.title).find(p => p.acceptMode) : undefined;
+    return override?.acceptMode || vscode.workspace.getConfiguration(CONFIG_SECTION).get<AcceptMode>('acceptMode', 'auto');
+}
+
+function confirmSeconds(): number {
+    return vscode.workspace.getConfiguration(CONFIG_SECTION).get<number>('confirmSeconds', 3);
+}
+
+/**
+ * Outlines the candidate and counts down. Resolves true if the user let the countdown run out
+ * and the same element is still the candidate. Cancelled elements are not offered again.
+ */
+async function confirmClick(session: CDPSession, info: CandidateDetails): Promise<boolean> {
+    if (acceptCountdown.active) return false;
+    if ((await cdp.evaluate(session.id, CANDIDATE_DECLINED_SCRIPT).catch(() => null))?.result?.value !== false) return false;
+    await cdp.evaluate(session.id, CONFIRM_MARK_SCRIPT).catch(() => null);
+
+    const name = (info.text.trim() || info.label || info.title || info.tagName).substring(0, 30);
+    const where = session.title.substring(0, 30);
+    const result = await acceptCountdown.run(`"${name}" in ${where}`, confirmSeconds(), true);
+    const confirmed = result === 'accept' &&
+        (await cdp.evaluate(session.id, CONFIRMED_CANDIDATE_SCRIPT).catch(() => null))?.result?.value === true;
+    await cdp.evaluate(session.id, CLEAR_CONFIRM_MARK_SCRIPT).catch(() => null);
+
+    if (result === 'accept' && !confirmed) log(`[CONFIRM] Candidate changed during the countdown in "${where}", not clicking`);
+    if (result === 'cancel' || result === 'skip') {
+        log(`[CONFIRM] ${result === 'skip' ? 'Always skipping' : 'Cancelled'} "${name}" in "${where}"`);
+        recordCandidate('skip', session, info, result === 'skip' ? 'always skip' : 'cancelled in confirm mode');
+        await cdp.evaluate(session.id, DECLINE_CANDIDATE_SCRIPT).catch(() => null);
+    }
+    if (result === 'skip') await skipAlways(session, info);
+    // Reports that arrived during the countdown were dropped
+    if (observedSessions.size > 0) cdp.evaluateAll(RESCAN_SCRIPT);
+    return confirmed;
+}
+
+/**
+ * Counts down before a native command. There is no element to deny, so it can only be cancelled.
+ */
+async function confirmNative(cmd: string): Promise<boolean> {
+    if (acceptCountdown.active) return false;
+    const result = await acceptCountdown.run(cmd, confirmSeconds(), false);
+    if (result === 'cancel') {
+        log(`[CONFIRM] Cancelled native "${cmd}"`);
+        recordStat({ kind: 'skip', strategy: 'native', session: NATIVE_SESSION, command: cmd, reason: 'cancelled in confirm mode' });
+    }
+    return result === 'accept';
+}
+
+/**
+ * Saves a deny rule for the candidate in this target, to workspace settings when there is a workspace.
+ */
+async function skipAlways(session: CDPSession, info: CandidateDetails) {
+    const clean = (s: string | null) => (s || '').trim().toLowerCase();
+    const descriptor: TeachDescriptor = {
+        tagName: info.tagName, text: clean(info.text), ariaLabel: clean(info.label), title: clean(info.title), role: '', classes: [], ancestors: []
+    };
+    const rule = proposeRules(descriptor, 'deny', session.url)[0]?.rule;
+    if (!rule) return;
+    // The reported text is cut at 30 characters
+    if (info.text.length >= 30 && typeof rule.text === 'string') rule.text = { startsWith: rule.text };
+
+    const destination = ruleDestinations()[0];
+    await appendRule(rule, destination.target);
+    log(`[CONFIRM] Saved deny rule to ${destination.label}: ${JSON.stringify(rule)}`);
+    vscode.window.showInformationMessage(`Kayorama: "${descriptor.text || descriptor.ariaLabel || descriptor.title}" won't be accepted here again (rule "${rule.id}" in ${destination.label}).`);
+}
+
+// --- STATISTICS ---
+let statsPanel: StatsPanel | null = null;
+
+function recordStat(event: Partial<StatsEvent> & Pick<StatsEvent, 'kind'>) {
+    stats?.record({ strategy: null, session: null, category: null, ruleId: null, score: null, text: null, command: null, reason: null, ...event });
+}
+
+function recordCandidate(kind: 'skip' | 'block', session: CDPSession, info: CandidateDetails, reason: string) {
+    recordStat({
+        kind, strategy: 'cdp', session: session.title, category: info.category, ruleId: info.ruleId, score: info.score,
+        text: info.text || info.label || info.title, command: info.command, reason
+    });
+}
+
+function recordConnection(event: CDPConnectionEvent) {
+    recordStat({ kind: event.type === 'disconnected' ? 'disconnect' : event.reconnect ? 'reconnect' : 'connect', strategy: 'cdp', session: event.session.title });
+}
+
+function showStats() {
+    if (!stats) {
+        vscode.window.showInformationMessage('Kayorama: Statistics are disabled (kayorama.stats.enabled).');
+        return;
+    }
+    if (!statsPanel) statsPanel = new StatsPanel(stats, log);
+    statsPanel.show();
+}
+
+// --- EXTENSION API ---
+// acceptMode / shadow of the last `enable` call (API, kayorama.enable or the session menu), cleared on disable
+let enableOverrides: EnableOptions = {};
+let sessionEnd: SessionEnd = { kind: 'manual' };
+// Last candidate or agent edit, for sessions that end with the agent task
+let lastAgentActivity = 0;
+let workspaceState: vscode.Memento | null = null;
+const acceptEmitter = new vscode.EventEmitter<AcceptEvent>();
+
+/**
+ * Journals an accept and announces it to API listeners.
+ */
+function reportAccept(action: JournalAction, proposedCommand: string | null, since?: number) {
+    journal?.record(action, since);
+    const el = action.element;
+    recordStat({
+        kind: 'accept', strategy: action.strategy, session: action.session ?? NATIVE_SESSION, category: el?.category ?? 'accept', ruleId: el?.ruleId ?? null, score: el?.score ?? null,
+        text: el ? el.text || el.label || el.title : null, command: action.command ?? proposedCommand
+    });
+    acceptEmitter.fire({
+        strategy: action.strategy,
+        time: new Date().toISOString(),
+        session: action.session ?? null,
+        element: action.element ?? null,
+        proposedCommand,
+        command: action.command ?? null
+    });
+}
+
+function enable(options: EnableOptions = {}) {
+    const { minutes, untilTaskDone, ...overrides } = options;
+    startSession(overrides, sessionEndFor(options, Date.now()));
+}
+
+function startSession(overrides: EnableOptions, end: SessionEnd) {
+    const wasShadow = shadowMode();
+    enableOverrides = overrides;
+    sessionEnd = end;
+    lastAgentActivity = Date.now();
+    if (isEnabled) {
+        if (shadowMode() !== wasShadow) onShadowModeChanged();
+        updateStatusBar();
+        saveSession();
+    } else {
+        setEnabled(true);
+    }
+}
+
+function clearSession() {
+    enableOverrides = {};
+    sessionEnd = { kind: 'manual' };
+}
+
+/**
+ * Keeps the session in workspaceState, so a window reload resumes it.
+ */
+function saveSession() {
+    workspaceState?.update(SESSION_STATE_KEY, isEnabled ? { options: enableOverrides, end: sessionEnd } : undefined);
+}
+
+/**
+ * Switches autopilot off when a timed session runs out or the agent task it waited for has
+ * gone quiet. Returns true if it did.
+ */
+function endSessionIfDue(): boolean {
+    const now = Date.now();
+    if (sessionEnd.kind === 'taskDone') {
+        const signals = pendingSignals.active();
+        if (signals.has('externalEdit') || signals.has('chatEditing')) lastAgentActivity = now;
+    }
+    const reason = sessionEnd.kind === 'timer' && now >= sessionEnd.until ? 'its time ran out'
+        : sessionEnd.kind === 'taskDone' && now - lastAgentActivity >= TASK_QUIET_MS ? 'the agent task finished'
+        : null;
+    if (!reason) return false;
+    log(`[SESSION] Autopilot switched off: ${reason}`);
+    setEnabled(false);
+    vscode.window.showInformationMessage(`Kayorama: Autopilot switched off because ${reason}.`);
+    return true;
+}
+
+function sessionLabel(): string {
+    if (sessionEnd.kind === 'timer') return ` ${formatRemaining(sessionEnd.until - Date.now())}`;
+    if (sessionEnd.kind === 'taskDone') return ' until done';
+    return '';
+}
+
+/**
+ * The status bar menu: timed sessions, a session bound to the agent task, and switching off.
+ * Picking a duration while on restarts the session with it and keeps the overrides.
+ */
+async function showSessionMenu() {
+    const items: (vscode.QuickPickItem & { options?: EnableOptions })[] = [
+        ...(isEnabled ? [{ label: '$(circle-slash) Disable' }] : []),
+        { label: isEnabled ? '$(check) Keep on without a time limit' : '$(check) Enable', options: {} },
+        ...[15, 30, 60].map(minutes => ({ label: `$(watch) Enable for ${minutes} minutes`, options: { minutes } })),
+        {
+            label: '$(sync) Enable until the current agent task finishes',
+            detail: `Switches off after ${TASK_QUIET_MS / 60000} minutes without buttons to accept or agent edits`,
+            options: { untilTaskDone: true }
+        }
+    ];
+    const picked = await vscode.window.showQuickPick(items, { placeHolder: `Kayorama Autopilot is ${isEnabled ? 'on' : 'off'}` });
+    if (!picked) return;
+    if (picked.options) enable({ ...enableOverrides, ...picked.options });
+    else disable();
+}
+
+function disable() {
+    setEnabled(false);
+}
+
+/**
+ * One pass of the polling loop, run on request. Connects first if autopilot is off, and
+ * disconnects again afterwards.
+ */
+async function runOnce(): Promise<AcceptEvent[]> {
+    const accepts: AcceptEvent[] = [];
+    const listener = acceptEmitter.event(e => accepts.push(e));
+    try {
+        if (!isEnabled) await connectCDP();
+        if (!activityPaused()) await runPass(true);
+    } finally {
+        listener.dispose();
+        if (!isEnabled) cdp.disconnectAll();
+    }
+    return accepts;
+}
+
+function getStatus(): AutopilotStatus {
+    return {
+        enabled: isEnabled,
+        until: isEnabled && sessionEnd.kind === 'timer' ? sessionEnd.until : null,
+        untilTaskDone: isEnabled && sessionEnd.kind === 'taskDone',
+        shadow: shadowMode(),
+        acceptMode: acceptModeFor(null),
+        pausedBy: activityMonitor.pausedBy(),
+        stoppedBy: acceptLimiter.tripped?.message ?? null,
+        cdpSessions: cdp.sessionCount,
+        profiles: activeProfiles().map(p => p.profile.id)
+    };
+}
+
+/**
+ * `kayorama.enable` for keybindings and tasks, e.g. `"args": { "acceptMode": "confirm" }`.
+ */
+function enableCommand(args?: unknown) {
+    const errors: string[] = [];
+    const options = parseEnableOptions(args, errors);
+    if (errors.length > 0) {
+        log(`[API] Ignored kayorama.enable arguments: ${errors.join('; ')}`, 'warn');
+        vscode.window.showWarningMessage(`Kayorama: Ignored kayorama.enable arguments (${errors.join('; ')}).`);
+    }
+    enable(options);
+}
+
+// --- PROVIDER PROFILES ---
+let profileStates: ProfileState[] = [];
+
+async function reloadProfiles() {
+    const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+    const commands = await vscode.commands.getCommands(true);
+    nativeDispatcher.setAvailableCommands(commands);
+    const extensionIds = vscode.extensions.all.map(e => e.id);
+    const errors: string[] = [];
+    profileStates = resolveProfiles(config.get<Record<string, ProfileSettings>>('profiles', {}), extensionIds, commands, errors);
+    errors.forEach(e => log(`[PROFILE ERROR] ${e}`, 'warn'));
+    invalidateScripts();
+
+    const summary = profileStates.map(p => `${p.profile.id}=${p.enabled ? 'on' : 'off'}${p.detected ? '' : ' (not detected)'}`);
+    log(`Profiles: ${summary.join(', ')}`);
+    updateStatusBar();
+}
+
+function activeProfiles(): ProfileState[] {
+    return profileStates.filter(p => p.enabled);
+}
+
+/**
+ * The native accept commands to try: `kayorama.nativeCommands` if set, otherwise the
+ * commands of the enabled profiles, de-duplicated in profile order.
+ */
+function nativeCommands(): NativeCommand[] {
+    const configured = vscode.workspace.getConfiguration(CONFIG_SECTION).get<unknown[]>('nativeCommands', []);
+    if (configured.length > 0) return configuredNativeCommands(configured);
+
+    const seen = new Set<string>();
+    return activeProfiles().flatMap(p => p.profile.commands).filter(c => {
+        if (seen.has(c.command)) return false;
+        seen.add(c.command);
+        return true;
+    });
+}
+
+let nativeCommandsSource: string | null = null;
+let nativeCommandsParsed: NativeCommand[] = [];
+
+function configuredNativeCommands(raw: unknown[]): NativeCommand[] {
+    // Parsed once per settings value, so errors are logged once rather than every poll
+    const source = JSON.stringify(raw);
+    if (source !== nativeCommandsSource) {
+        const errors: string[] = [];
+        nativeCommandsParsed = parseNativeCommands(raw, errors);
+        errors.forEach(e => log(`[NATIVE ERROR] ${e}`, 'warn'));
+        nativeCommandsSource = source;
+    }
+    return nativeCommandsParsed;
+}
+
+function profilesForTarget(url: string, title: string): ProfileState[] {
+    return activeProfiles().filter(p => matchesTarget(p.profile, url, title));
+}
+
+function scanUnmatchedTargets(): boolean {
+    return vscode.workspace.getConfiguration(CONFIG_SECTION).get<boolean>('scanUnmatchedTargets', true);
+}
+
+async function selectProfiles() {
+    const items = profileStates.map(p => ({
+        label: p.profile.label,
+        description: p.detected ? 'detected' : 'not detected',
+        picked: p.enabled,
+        state: p
+    }));
+    const picked = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        placeHolder: 'Select the provider profiles Autopilot should drive'
+    });
+    if (!picked) return;
+
+    const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+    const settings = { ...config.get<Record<string, ProfileSettings>>('profiles', {}) };
+    for (const item of items) {
+        const enabled = picked.includes(item);
+        // Keep following detection where the choice agrees with it
+        settings[item.state.profile.id] = { ...settings[item.state.profile.id], enabled: enabled === item.state.detected ? 'auto' : enabled };
+    }
+    await config.update('profiles', settings, vscode.ConfigurationTarget.Global);
+}
+
+export function activate(context: vscode.ExtensionContext): KayoramaApi {
+    globalStoragePath = context.globalStorageUri.fsPath;
+    reloadLogger();
     outputChannel.appendLine('Kayorama Autopilot: Initializing (v8.1.0 - Native + CDP)...');
-    if (logFilePath) log(`Logging to: ${logFilePath}`);
+    if (logger.file) log(`Logging to: ${logger.file}`);
+    reloadRules();
+    reloadActions();
+    reloadEndpoints();
+    reloadCommandPolicy();
+    reloadLimits();
+    reloadEditPolicy();
+    reloadActivityMonitor();
+    userDataDirs = [path.resolve(context.globalStorageUri.fsPath, '..', '..', '..')];
+    cdp.setTargetFilter((url, title, target) =>
+        (teaching || scanUnmatchedTargets() || profilesForTarget(url, title).length > 0) && inWindowScope(target));
 
     statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
-    statusBarItem.command = 'kayorama.toggle';
-    statusBarItem.tooltip = 'Click to toggle Autopilot';
+    statusBarItem.command = 'kayorama.sessionMenu';
+    statusBarItem.accessibilityInformation = { label: `Kayorama Autopilot ${windowMarker}` };
     context.subscriptions.push(statusBarItem);
     updateStatusBar();
     statusBarItem.show();
+    acceptCountdown = new AcceptCountdown('kayorama.cancelAccept', 'kayorama.skipAccept');
+    context.subscriptions.push(acceptCountdown);
+    reloadProfiles();
+
+    const journalConfig = vscode.workspace.getConfiguration(`${CONFIG_SECTION}.journal`);
+    if (journalConfig.get<boolean>('enabled', true)) {
+        const storage = (context.storageUri || context.globalStorageUri).fsPath;
+        journal = new AcceptJournal(path.join(storage, 'journal'), {
+            captureMs: journalConfig.get<number>('captureMs', 3000),
+            maxEntries: journalConfig.get<number>('maxEntries', 200)
+        }, log);
+        journal.load();
+        context.subscriptions.push(...trackFileChanges(journal));
+    }
+
+    const statsConfig = vscode.workspace.getConfiguration(`${CONFIG_SECTION}.stats`);
+    if (statsConfig.get<boolean>('enabled', true)) {
+        const storage = (context.storageUri || context.globalStorageUri).fsPath;
+        stats = new StatsStore(path.join(storage, 'stats'), {
+            retentionDays: statsConfig.get<number>('retentionDays', DEFAULT_STATS_OPTIONS.retentionDays),
+            maxEvents: DEFAULT_STATS_OPTIONS.maxEvents
+        }, log);
+        stats.load();
+    }
+
+    const withJournal = (fn: (journal: AcceptJournal, log: (msg: string) => void) => Promise<void>) => () => {
+        if (journal) return fn(journal, log);
+        vscode.window.showInformationMessage('Kayorama: The autopilot journal is disabled (kayorama.journal.enabled).');
+    };
+
+    const unsubscribeCDP = cdp.on('Runtime.bindingCalled', onBindingCalled);
+    const unsubscribeConnections = cdp.onConnection(recordConnection);
+    const unsubscribeHealth = supervisor.onChange(() => { if (isEnabled) updateStatusBar(); });
 
     context.subscriptions.push(
+        { dispose: unsubscribeCDP },
+        { dispose: unsubscribeConnections },
+        { dispose: unsubscribeHealth },
+        { dispose: () => statsPanel?.dispose() },
+        ...pendingSignals.activate(),
+        ...activityMonitor.activate(),
+        acceptEmitter,
         vscode.commands.registerCommand('kayorama.toggle', toggleAutopilot),
+        vscode.commands.registerCommand('kayorama.enable', enableCommand),
+        vscode.commands.registerCommand('kayorama.disable', disable),
+        vscode.commands.registerCommand('kayorama.sessionMenu', showSessionMenu),
+        vscode.commands.registerCommand('kayorama.selectProfiles', selectProfiles),
+        vscode.commands.registerCommand('kayorama.undoLastAction', withJournal(undoLastAction)),
+        vscode.commands.registerCommand('kayorama.reviewSession', withJournal(reviewSession)),
+        vscode.commands.registerCommand('kayorama.benchmark', benchmarkDetection),
+        vscode.commands.registerCommand('kayorama.shadowReport', showShadowReport),
+        vscode.commands.registerCommand('kayorama.showStats', showStats),
+        vscode.commands.registerCommand('kayorama.teach', () => teach('allow')),
+        vscode.commands.registerCommand('kayorama.teachDeny', () => teach('deny')),
+        vscode.commands.registerCommand('kayorama.cancelAccept', () => acceptCountdown.cancel()),
+        vscode.commands.registerCommand('kayorama.skipAccept', () => acceptCountdown.skip()),
         vscode.commands.registerCommand('kayorama.inspectDOM', inspectDOM),
         vscode.commands.registerCommand('kayorama.dumpDiagnostics', dumpDiagnostics),
+        vscode.commands.registerCommand('kayorama.exportDiagnostics', exportDiagnostics),
         vscode.commands.registerCommand('kayorama.dumpCommands', async () => {
             const cmds = await vscode.commands.getCommands(true);
             const fs = require('fs');
@@ -72,261 +1287,342 @@ export function activate(context: vscode.ExtensionContext) {
                 fs.writeFileSync(dest, JSON.stringify(cmds.sort(), null, 2));
                 vscode.window.showInformationMessage(`Commands dumped to ${dest}`);
             }
-        })
+        }),
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration(`${CONFIG_SECTION}.rules`) || e.affectsConfiguration(`${CONFIG_SECTION}.useBuiltinRules`)) {
+                reloadRules();
+            }
+            if (e.affectsConfiguration(`${CONFIG_SECTION}.actions`)) {
+                reloadActions();
+            }
+            if (e.affectsConfiguration(`${CONFIG_SECTION}.endpoints`)) {
+                // Reconnect from scratch on the next poll
+                reloadEndpoints();
+                cdp.disconnectAll();
+                resetWindowScope();
+                supervisor.kick();
+            }
+            if (e.affectsConfiguration(`${CONFIG_SECTION}.commandPolicy`)) {
+                reloadCommandPolicy();
+            }
+            if (e.affectsConfiguration(`${CONFIG_SECTION}.limits`)) {
+                reloadLimits();
+            }
+            if (e.affectsConfiguration(`${CONFIG_SECTION}.protectedPaths`) || e.affectsConfiguration(`${CONFIG_SECTION}.maxLinesChanged`)) {
+                reloadEditPolicy();
+            }
+            if (['logLevel', 'logFile', 'logMaxSizeKB', 'logMaxFiles'].some(key => e.affectsConfiguration(`${CONFIG_SECTION}.${key}`))) {
+                reloadLogger();
+            }
+            if (e.affectsConfiguration(`${CONFIG_SECTION}.activityIdleMs`)) {
+                reloadActivityMonitor();
+            }
+            if (e.affectsConfiguration(`${CONFIG_SECTION}.shadowMode`)) {
+                onShadowModeChanged();
+            }
+            if (['cdpPort', 'autoDiscoverPort', 'portRange', 'globalMode'].some(key => e.affectsConfiguration(`${CONFIG_SECTION}.${key}`))) {
+                cdp.disconnectAll();
+                resetWindowScope();
+                windowScopeWarned = false;
+            }
+            if (e.affectsConfiguration(`${CONFIG_SECTION}.profiles`) || e.affectsConfiguration(`${CONFIG_SECTION}.scanUnmatchedTargets`)) {
+                // Re-apply the target filter from scratch on the next scan
+                cdp.disconnectAll();
+                reloadProfiles();
+            }
+            if (e.affectsConfiguration(`${CONFIG_SECTION}.detectionMode`) && isEnabled) {
+                if (detectionMode() === 'observer') ensureObservers();
+                else removeObservers();
+            }
+        }),
+        vscode.extensions.onDidChange(() => reloadProfiles())
     );
 
+    workspaceState = context.workspaceState;
+    const saved = restoreSession(context.workspaceState.get(SESSION_STATE_KEY), Date.now());
+    if (saved) {
+        log(`[SESSION] Resuming autopilot from the last window: ${JSON.stringify(saved)}`);
+        startSession(saved.options, saved.end);
+    }
+
     log('Kayorama Autopilot: Ready.');
+    return { enable, disable, runOnce, getStatus, onDidAccept: acceptEmitter.event };
 }
 
 export function deactivate() {
     stopPolling();
+    if (categoryReleaseTimer) clearTimeout(categoryReleaseTimer);
+    journal?.flush();
+    stats?.flush();
+    logger.flushSync();
 }
 
 function toggleAutopilot() {
-    isEnabled = !isEnabled;
+    setEnabled(!isEnabled);
+}
+
+function setEnabled(enabled: boolean) {
+    if (enabled === isEnabled) return;
+    isEnabled = enabled;
+    const wasShadow = shadowMode();
+    if (!isEnabled) clearSession();
+    saveSession();
+    // Switching on again is the way out of a tripped breaker
+    if (isEnabled) acceptLimiter.reset();
+    // A dry run started here (setting, API override or restored session) gets a report of its own
+    if (isEnabled && shadowMode()) shadowReport.clear();
     updateStatusBar();
     if (isEnabled) startPolling();
+    // Don't leave shadow outlines behind in the workbench
+    else if (wasShadow) cdp.evaluateAll(CLEAR_SHADOW_MARK_SCRIPT).finally(stopPolling);
     else stopPolling();
 }
 
 function startPolling() {
     stopPolling();
-    const getPort = () => vscode.workspace.getConfiguration(CONFIG_SECTION).get<number>('cdpPort', DEFAULT_PORT);
-
-    cdp.scanAndConnect(getPort());
-
-    connectionInterval = setInterval(() => {
-        if (!isEnabled) return;
-        cdp.scanAndConnect(getPort());
-    }, RECONNECT_MS);
+    commandDecisions.clear();
+    nativeTerminalSkipLogged = false;
+    shadowSeen.clear();
+    lastShadowNativePlan = '';
+    editPolicyNotified.clear();
+    supervisor.start(async () => {
+        const endpoint = await connectCDP();
+        // Also re-installs observers lost to a page reload
+        if (isEnabled && detectionMode() === 'observer') await ensureObservers();
+        return endpoint;
+    });
 
+    let lastProbe = Date.now();
     pollingInterval = setInterval(async () => {
-        if (!isEnabled) return;
-        updateStatusBar();
-
-        if (cdp.sessionCount > 0) {
-            await executeCDPClickStrategy();
-        } else {
-            await executeCommandFallbackStrategy();
+        if (!isEnabled || endSessionIfDue()) return;
+        if (Date.now() - lastProbe >= COMMAND_PROBE_MS) {
+            lastProbe = Date.now();
+            vscode.commands.getCommands(true).then(commands => nativeDispatcher.setAvailableCommands(commands));
         }
+        updateStatusBar();
+        if (activityPaused()) return;
+        await runPass(false);
     }, POLL_MS);
 }
 
+/**
+ * CDP when connected, native commands otherwise. `includeObserved` also scans the sessions
+ * that have an observer installed, which otherwise report by themselves.
+ */
+async function runPass(includeObserved: boolean) {
+    if (cdp.sessionCount > 0) {
+        await executeCDPClickStrategy(includeObserved);
+    } else {
+        await executeCommandFallbackStrategy();
+    }
+}
+
 function stopPolling() {
+    acceptCountdown.stop();
     if (pollingInterval) clearInterval(pollingInterval);
-    if (connectionInterval) clearInterval(connectionInterval);
     pollingInterval = null;
-    connectionInterval = null;
+    supervisor.stop();
+    observedSessions.clear();
     cdp.disconnectAll();
 }
 
 /**
- * Strategy A: Deep DOM Scan via CDP (v8.0.0 Robust)
- * Logic: Checks TEXT first, then STYLE (safely).
- * This prevents crashes on cross-origin iframe elements.
+ * Strategy A: Deep DOM Scan via CDP
+ * Injects the script compiled from the active click rules (see rules.ts / scan-script.ts)
+ * into every session that has no observer installed.
  */
-async function executeCDPClickStrategy() {
-    const script = `
-        (function() {
-            function triggerClick(el) {
-                // v8.0.0: Use owner document and window for correct context
-                const doc = el.ownerDocument || document;
-                const win = doc.defaultView || window;
-                
-                const opts = { bubbles: true, cancelable: true, view: win };
-                el.dispatchEvent(new MouseEvent('mousedown', opts));
-                el.dispatchEvent(new MouseEvent('mouseup', opts));
-                el.click();
-            }
-
-            function scan(root, depth = 0) {
-                if (depth > 20) return null;
-                
-                let bestCandidate = null;
-                let bestScore = 0; 
-                
-                let children = [];
-                try {
-                    if (root.querySelectorAll) {
-                         children = Array.from(root.querySelectorAll('*')); 
-                    }
-                    if (root.tagName === 'IFRAME') {
-                        try {
-                            if (root.contentDocument) {
-                                const iframeResult = scan(root.contentDocument, depth + 1);
-                                if (iframeResult && iframeResult.score > bestScore) {
-                                    bestCandidate = iframeResult.candidate;
-                                    bestScore = iframeResult.score;
-                                }
-                            }
-                        } catch(e) {}
-                    }
-                } catch(e) { return null; }
-
-                for (const el of children) {
-                    if (el.shadowRoot) {
-                        const shadowResult = scan(el.shadowRoot, depth + 1);
-                        if (shadowResult && shadowResult.score > bestScore) {
-                            bestCandidate = shadowResult.candidate;
-                            bestScore = shadowResult.score;
-                        }
-                    }
-                    if (el.tagName === 'IFRAME') {
-                         const iframeResult = scan(el, depth + 1); 
-                         if (iframeResult && iframeResult.score > bestScore) {
-                             bestCandidate = iframeResult.candidate;
-                             bestScore = iframeResult.score;
-                         }
-                    }
+async function executeCDPClickStrategy(includeObserved: boolean) {
+    try {
+        const results = await cdp.evaluateEach(session => observedSessions.has(session.id) && !includeObserved ? null : clickScriptFor(session));
+        for (const { session, result } of results) {
+            const info: CandidateDetails | undefined = result?.result?.value;
+            if (info) await processCandidate(session, info);
+        }
+    } catch (e) { }
+}
 
-                    // --- v8.0.0: ELEMENT EVALUATION (Text Match FIRST) ---
-                    if (el.offsetParent === null) continue;
+/**
+ * Checks a reported candidate against the command policy, then clicks it.
+ * Shared by poll mode and observer reports.
+ */
+async function processCandidate(session: CDPSession, info: CandidateDetails) {
+    if (teaching) return;
+    lastAgentActivity = Date.now();
+    if (busySessions.has(session.id) || activityPaused()) return;
+    busySessions.add(session.id);
+    try {
+        const mode = acceptModeFor(session);
+        if (mode === 'off') return;
+        if (shadowMode()) return await shadowCandidate(session, info);
+        if (!checkCommandPolicy(session, info)) return;
+        if (!checkEditPolicy(info.files || [], session.title, 'cdp')) return;
+        if (!withinCategoryLimit(session, info)) return;
+        const signature = elementSignature(info);
+        if (!withinLimits(session.title, signature)) return;
+        // The user may have started typing during the countdown
+        if (mode === 'confirm' && (!await confirmClick(session, info) || activityPaused())) return;
 
-                    const text = (el.textContent || '').trim().toLowerCase();
-                    const label = (el.getAttribute('aria-label') || '').trim().toLowerCase();
-                    const title = (el.getAttribute('title') || '').trim().toLowerCase();
-                    
-                    const blacklist = ['open', 'agent', 'manager', 'chat', 'discard', 'cancel', 'debug', 'run', 'go', 'history', 'log', 'browser', 'split', 'editor', 'toggle'];
-                    
-                    const isBlacklisted = (s) => blacklist.some(b => s.includes(b));
-                    if (isBlacklisted(text) || isBlacklisted(label) || isBlacklisted(title)) continue;
+        const clicked = clickModeFor(session) === 'trusted'
+            ? await trustedClick(session)
+            : await syntheticClick(session);
+        if (clicked) {
+            log(`[CLICKED] Category:${info.category} Score:${info.score} Rule:${info.ruleId} <${info.tagName}> Text:"${info.text}" Label:"${info.label}" Title:"${info.title}"`);
+            acceptLimiter.record(session.title, signature);
+            categoryLimiter.record(info.category);
+            useCommandApproval(info);
+            updateHeldCategories();
+            reportAccept({ strategy: 'cdp', session: session.title, element: info }, info.command);
+        }
+    } finally {
+        busySessions.delete(session.id);
+    }
+}
 
-                    let score = 0;
-                    
-                    const matchesKeyword = (s) => s === 'accept' || s === 'accept all' || s === 'apply';
-                    
-                    if (matchesKeyword(label)) score = 95;
-                    else if (matchesKeyword(title)) score = 95;
-                    else if (text === 'accept all') score = 100;
-                    else if (text.startsWith('accept all')) score = 90;
-                    else if (text === 'accept') score = 80;
-                    else if (text === 'apply') score = 75;
-                    else if (text.includes('accept all')) score = 65; 
-
-                    // Optimization: If score is low, skip expensive style checks
-                    if (score < 60) continue;
-
-                    // --- STYLE CHECK (Safe) ---
-                    try {
-                        const win = el.ownerDocument.defaultView || window;
-                        const style = win.getComputedStyle(el);
-                        
-                        if (style.visibility === 'hidden' || style.display === 'none' || style.opacity === '0') continue;
-
-                        let isInteractive = style.cursor === 'pointer';
-                        
-                        // Check parent for cursor:pointer if element itself isn't
-                        if (!isInteractive && el.parentElement) {
-                             const pStyle = win.getComputedStyle(el.parentElement);
-                             if (pStyle.cursor === 'pointer') isInteractive = true;
-                        }
-                        if (el.tagName === 'BUTTON' || el.getAttribute('role') === 'button') isInteractive = true;
-                        
-                        // v8.0.0: Explicitly allow "Accept all" text even if cursor is weird, as long as it's not hidden
-                        if (!isInteractive && score >= 90) {
-                             isInteractive = true; 
-                        }
+// --- CLICK MODES ---
 
-                        if (!isInteractive) continue;
+/**
+ * The first matching profile's click mode wins over `kayorama.clickMode`.
+ */
+function clickModeFor(session: CDPSession): ClickMode {
+    const override = profilesForTarget(session.url, session.title).find(p => p.clickMode);
+    return override?.clickMode || vscode.workspace.getConfiguration(CONFIG_SECTION).get<ClickMode>('clickMode', 'synthetic');
+}
 
-                    } catch(e) { 
-                        // If cross-origin style check fails, but score is high, take a leap of faith?
-                        // No, unsafe. Assume not interactive.
-                        continue; 
-                    }
+async function syntheticClick(session: CDPSession): Promise<boolean> {
+    const clicked = await cdp.evaluate(session.id, CLICK_CANDIDATE_SCRIPT).catch(() => null);
+    return clicked?.result?.value === true;
+}
 
-                    const cls = (el.className || '').toLowerCase();
-                    if (cls.includes('statusbar') || cls.includes('tab') || cls.includes('monaco-breadcrumb')) continue;
-                    if (text.includes('accepting') || label.includes('accepting')) continue;
+/**
+ * Clicks the stored candidate with real (isTrusted) input via Input.dispatchMouseEvent.
+ * Falls back to the synthetic click if another element is under the candidate's centre,
+ * or if the dispatched input never reached it.
+ */
+async function trustedClick(session: CDPSession): Promise<boolean> {
+    const name = session.title.substring(0, 40);
+    try {
+        const location = (await cdp.evaluate(session.id, LOCATE_CANDIDATE_SCRIPT))?.result?.value;
+        if (!location) return false;
+        if (!location.hit) {
+            log(`[CLICK] Candidate is covered at (${Math.round(location.x)}, ${Math.round(location.y)}) in "${name}", using synthetic click`);
+            return syntheticClick(session);
+        }
 
-                    if (score > bestScore) {
-                        bestScore = score;
-                        bestCandidate = el;
-                    }
-                }
+        const { x, y } = location;
+        await cdp.send(session.id, 'Input.dispatchMouseEvent', { type: 'mouseMoved', x, y });
+        await cdp.send(session.id, 'Input.dispatchMouseEvent', { type: 'mousePressed', x, y, button: 'left', buttons: 1, clickCount: 1 });
+        await cdp.send(session.id, 'Input.dispatchMouseEvent', { type: 'mouseReleased', x, y, button: 'left', buttons: 0, clickCount: 1 });
 
-                return bestCandidate ? { candidate: bestCandidate, score: bestScore } : null;
-            }
+        const landed = (await cdp.evaluate(session.id, TRUSTED_CLICK_RESULT_SCRIPT))?.result?.value === true;
+        if (landed) return true;
+        log(`[CLICK] Trusted click did not reach the candidate in "${name}", using synthetic click`);
+    } catch (e: any) {
+        log(`[CLICK] Trusted click failed in "${name}" (${e.message}), using synthetic click`, 'warn');
+    }
+    return syntheticClick(session);
+}
 
-            const result = scan(document);
-            if (result && result.candidate) {
-                const details = {
-                    tagName: result.candidate.tagName,
-                    text: (result.candidate.textContent || '').substring(0, 30),
-                    label: result.candidate.getAttribute('aria-label'),
-                    title: result.candidate.getAttribute('title'),
-                    score: result.score
-                };
-                
-                triggerClick(result.candidate);
-                
-                try {
-                   result.candidate.style.outline = '4px solid #00FF00'; // Green flash
-                   setTimeout(() => result.candidate.style.outline = '', 500);
-                } catch(e){}
+async function executeCommandFallbackStrategy() {
+    const mode = acceptModeFor(null);
+    if (mode === 'off' || (mode === 'confirm' && acceptCountdown.active)) return;
+    // Only commands that exist and have something pending are run, see native-dispatcher.ts
+    const planned = nativeDispatcher.plan(nativeCommands(), pendingSignals.active());
+    if (shadowMode()) return shadowNative(planned);
 
-                return details;
+    for (const { command: cmd } of planned) {
+        // The proposed command text is not visible to native mode, so the policy can't vet it
+        if (NATIVE_TERMINAL_COMMANDS.includes(cmd) && commandPolicy.enabled && !allowNativeTerminalRun()) {
+            if (!nativeTerminalSkipLogged) {
+                log(`[POLICY] DENY native "${cmd}" - command text cannot be inspected (set kayorama.commandPolicy.nativeTerminalRun to "allow" to override)`);
+                recordStat({ kind: 'block', strategy: 'native', session: NATIVE_SESSION, command: cmd, reason: 'command policy: terminal command not inspectable' });
+                nativeTerminalSkipLogged = true;
             }
-            return null;
-        })()
-    `;
-
-    try {
-        const results = await cdp.evaluateAll(script);
-        if (results && Array.isArray(results)) {
-            results.forEach(r => {
-                if (r?.result?.value) {
-                    const info = r.result.value;
-                    log(`[CLICKED] Score:${info.score} <${info.tagName}> Text:"${info.text}" Label:"${info.label}" Title:"${info.title}"`);
-                }
-            });
+            continue;
         }
-    } catch (e) { }
+        if (!checkEditPolicy(nativePendingEdits(), NATIVE_SESSION, 'native')) continue;
+        if (!withinLimits('native', `native|${cmd}`)) return;
+        if (mode === 'confirm' && (!await confirmNative(cmd) || activityPaused())) return;
+        // Only commands that actually edited something count as accepts
+        const stamp = documentVersionStamp();
+        const startedAt = Date.now();
+        if (await nativeDispatcher.run(cmd) && documentVersionStamp() !== stamp) {
+            log(`[ACCEPTED] Native command: ${cmd}`);
+            acceptLimiter.record('native', `native|${cmd}`);
+            reportAccept({ strategy: 'native', command: cmd }, null, startedAt);
+        }
+    }
 }
 
-async function executeCommandFallbackStrategy() {
-    const fallbackCommands = [
-        'antigravity.command.accept', // High probability for User's Agent
-        'antigravity.agent.acceptAgentStep',
-        'antigravity.prioritized.agentAcceptAllInFile',
-        'inlineChat.acceptChanges', // Standard Chat
-        'editor.action.inlineSuggest.commit', // Standard Copilot
-        'interactive.acceptChanges',
-        'workbench.action.terminal.chat.runCommand',
-        'workbench.action.acceptRefactoring'
-    ];
+function allowNativeTerminalRun(): boolean {
+    return vscode.workspace.getConfiguration(CONFIG_SECTION).get<string>('commandPolicy.nativeTerminalRun', 'deny') === 'allow';
+}
 
-    // We cycle through them. 
-    // Note: We don't log every attempt to avoid spamming the output, 
-    // unless we want to debug.
+/**
+ * ` (name)` after the session count while connected to a configured endpoint.
+ */
+function endpointLabel(): string {
+    return activeEndpoint?.configured ? ` (${activeEndpoint.id})` : '';
+}
 
-    // log('Native Fallback: Attempting native accept commands...');
-    for (const cmd of fallbackCommands) {
-        try {
-            await vscode.commands.executeCommand(cmd);
-        } catch (e) {
-            // Ignore errors (command might not be enabled in current context)
-        }
+function sessionTooltip(): string {
+    const counts = new Map<string, number>();
+    cdp.getSessions().forEach(s => counts.set(s.endpoint, (counts.get(s.endpoint) || 0) + 1));
+    const lines = Array.from(counts, ([endpoint, count]) => `${endpoint}: ${count} session(s)`);
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
+
+function connectionTooltip(): string {
+    const status = supervisor.status;
+    const lines = [`Connection: ${status.health}${status.discovering || status.health === 'unreachable' ? '' : ' (no target discovery)'}`];
+    if (status.health === 'unreachable' && status.nextAttemptAt !== null) {
+        lines[0] += `, retrying in ${Math.max(0, Math.round((status.nextAttemptAt - Date.now()) / 1000))}s`;
     }
+    if (status.lastError) lines.push(`Last error (${new Date(status.lastError.time).toLocaleTimeString()}): ${status.lastError.message}`);
+    return `${lines.join('\n')}\n`;
 }
 
 function updateStatusBar() {
-    if (isEnabled) {
-        statusBarItem.text = `$(check) Auto: ON (CDP: ${cdp.sessionCount})`;
+    statusBarItem.tooltip = 'Click for Autopilot options';
+    const pausedBy = activityMonitor.pausedBy();
+    if (isEnabled && pausedBy) {
+        statusBarItem.text = `$(debug-pause) Auto: PAUSED (${pausedBy})${sessionLabel()}`;
+        statusBarItem.tooltip = `Paused while you work: waiting for ${activityMonitor.idleMs / 1000}s without activity. Click for Autopilot options`;
+        statusBarItem.backgroundColor = undefined;
+    } else if (isEnabled) {
+        const labels = activeProfiles().map(p => p.profile.label).join(', ') || 'no profiles';
+        statusBarItem.text = shadowMode()
+            ? `$(eye) Auto: SHADOW${sessionLabel()} (${labels}) CDP: ${cdp.sessionCount}${endpointLabel()}`
+            : `$(check) Auto: ON${sessionLabel()} (${labels}) CDP: ${cdp.sessionCount}${endpointLabel()}`;
+        statusBarItem.tooltip = `${connectionTooltip()}${sessionTooltip()}Click for Autopilot options`;
         statusBarItem.backgroundColor = cdp.sessionCount > 0 ? undefined : new vscode.ThemeColor('statusBarItem.warningBackground');
+    } else if (acceptLimiter.tripped) {
+        statusBarItem.text = '$(error) Auto: STOPPED';
+        statusBarItem.tooltip = `Stopped because ${acceptLimiter.tripped.message}. Click to re-enable.`;
+        statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
     } else {
         statusBarItem.text = '$(circle-slash) Auto: OFF';
         statusBarItem.backgroundColor = undefined;
     }
 }
 
+/**
+ * Runs a diagnostics task against the CDP sessions. While autopilot is on it uses the sessions
+ * it keeps; while it is off the sessions are opened for the task and closed again afterwards.
+ */
+async function withCDPSessions<T>(task: (endpoint: CDPEndpoint | null) => Promise<T>): Promise<T> {
+    if (isEnabled) return task(activeEndpoint ?? await connectCDP());
+    try {
+        return await task(await connectCDP());
+    } finally {
+        // Teach mode may have started meanwhile and needs its sessions
+        if (!isEnabled && !teaching) cdp.disconnectAll();
+    }
+}
+
 async function inspectDOM() {
     vscode.window.showInformationMessage('Scanning DOM & IFRAMES...');
     outputChannel.show();
 
-    const port = vscode.workspace.getConfiguration(CONFIG_SECTION).get<number>('cdpPort', DEFAULT_PORT);
-    await cdp.scanAndConnect(port);
-
     const script = `
         (function() {
             const results = [];
@@ -390,19 +1686,89 @@ async function inspectDOM() {
         })()
     `;
 
-    const results = await cdp.evaluateAll(script);
+    const results = await withCDPSessions(() => cdp.evaluateAll(script));
     log('[Inspector DUMP v8.0.0] ' + JSON.stringify(results, null, 2));
 }
 
 async function dumpDiagnostics() {
     vscode.window.showInformationMessage('Dumping raw diagnostics to log...');
-    const port = vscode.workspace.getConfiguration(CONFIG_SECTION).get<number>('cdpPort', DEFAULT_PORT);
-    const http = require('http');
-    http.get({ hostname: '127.0.0.1', port, path: '/json/list' }, (res: any) => {
-        let body = '';
-        res.on('data', (chunk: any) => body += chunk);
-        res.on('end', () => {
-            log('[RAW TARGETS] ' + body);
+    log(`[NATIVE] Pending signals: ${Array.from(pendingSignals.active()).join(', ') || 'none'}`);
+    nativeDispatcher.describe(nativeCommands()).forEach(line => log(`[NATIVE] ${line}`));
+    log(`[WINDOW] Marker: ${windowMarker}, global mode: ${globalMode()}, own target: ${ownPageId || 'unknown'}, webviews: ${ownWebviewIds.size}`);
+    const connected = await withCDPSessions(async found => {
+        log(`[PORT] ${found === null ? 'No debug endpoint found' : `Using ${describeEndpoint(found)}`}`);
+        const connection = supervisor.status;
+        log(`[CDP] Health: ${connection.health}, failures: ${connection.failures}, target discovery: ${connection.discovering}${connection.lastError ? `, last error: ${connection.lastError.message}` : ''}`);
+        cdp.getSessions().forEach(s => log(`[SESSION] ${s.endpoint} ${s.type} "${s.title.substring(0, 40)}" ${s.url.substring(0, 80)}`));
+        return found;
+    });
+    const endpoint = connected ?? configuredEndpoints[0] ?? localEndpoint(vscode.workspace.getConfiguration(CONFIG_SECTION).get<number>('cdpPort', DEFAULT_PORT));
+    fetchTargetList(endpoint)
+        .then(targets => log('[RAW TARGETS] ' + JSON.stringify(targets)))
+        .catch(e => log('[RAW TARGETS ERROR] ' + e.message, 'warn'));
+}
+
+/**
+ * Every target the debug endpoint lists, unfiltered. Endpoints given as a page's WebSocket
+ * URL have no list.
+ */
+function fetchTargetList(endpoint: CDPEndpoint): Promise<unknown> {
+    if (endpoint.wsUrl) return Promise.resolve(`Direct connection to ${endpoint.wsUrl}`);
+    return new Promise((resolve, reject) => {
+        http.get({ hostname: endpoint.host, port: endpoint.port, path: '/json/list', timeout: DEFAULT_LIST_TIMEOUT_MS }, res => {
+            let body = '';
+            res.on('data', chunk => body += chunk);
+            res.on('end', () => {
+                try {
+                    resolve(JSON.parse(body));
+                } catch (e) {
+                    reject(new Error(`Invalid target list: ${body.substring(0, 100)}`));
+                }
+            });
+        }).on('error', reject).on('timeout', function (this: http.ClientRequest) {
+            this.destroy(new Error('Timeout'));
         });
-    }).on('error', (e: any) => log('[RAW TARGETS ERROR] ' + e.message));
+    });
+}
+
+/**
+ * Saves settings, status, CDP targets and recent log entries to a JSON file for bug reports,
+ * with workspace and home paths replaced and anything that looks like a credential masked.
+ */
+async function exportDiagnostics() {
+    const { endpoint, sessions } = await withCDPSessions(async found => ({
+        endpoint: found,
+        sessions: cdp.getSessions().map(s => ({ endpoint: s.endpoint, type: s.type, title: s.title, url: s.url }))
+    }));
+    const targets = endpoint === null ? null : await fetchTargetList(endpoint).catch(e => `Could not list targets: ${e.message}`);
+    const extension = vscode.extensions.getExtension('Kayorama.kayorama-autopilot');
+    const bundle = redactValue({
+        generated: new Date().toISOString(),
+        extensionVersion: extension?.packageJSON.version ?? null,
+        vscodeVersion: vscode.version,
+        platform: `${process.platform} ${process.arch}`,
+        // Plain values only: the configuration object's methods are dropped
+        settings: JSON.parse(JSON.stringify(vscode.workspace.getConfiguration(CONFIG_SECTION))),
+        status: getStatus(),
+        window: { globalMode: globalMode(), ownTarget: ownPageId, webviews: ownWebviewIds.size },
+        connection: supervisor.status,
+        native: { pendingSignals: Array.from(pendingSignals.active()), commands: nativeDispatcher.describe(nativeCommands()) },
+        endpoint,
+        sessions,
+        targets,
+        log: logger.recent()
+    }, {
+        homeDir: os.homedir(),
+        workspaceFolders: (vscode.workspace.workspaceFolders || []).map(f => f.uri.fsPath)
+    });
+
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(path.join(os.homedir(), `kayorama-diagnostics-${Date.now()}.json`)),
+        filters: { JSON: ['json'] }
+    });
+    if (!uri) return;
+    await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(JSON.stringify(bundle, null, 2)));
+    log(`[DIAGNOSTICS] Exported to ${uri.fsPath}`);
+    const choice = await vscode.window.showInformationMessage('Kayorama: Diagnostics exported. Check the file before sharing it.', 'Open');
+    if (choice === 'Open') vscode.window.showTextDocument(uri);
 }
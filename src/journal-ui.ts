@@ -0,0 +1,210 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AcceptJournal, JournalEntry } from './journal';
+
+/**
+ * VS Code side of the accept journal: feeds it file changes and restores snapshots.
+ */
+
+const MAX_CACHED_SIZE = 2 * 1024 * 1024;
+const IGNORED_PATH = /[\\/](\.git|node_modules)[\\/]/;
+
+/**
+ * Last known content of every open file, so the content *before* an autopilot edit is available.
+ */
+const documentCache = new Map<string, string>();
+
+function cacheDocument(doc: vscode.TextDocument) {
+    if (doc.uri.scheme !== 'file') return;
+    const text = doc.getText();
+    if (text.length <= MAX_CACHED_SIZE) documentCache.set(doc.uri.fsPath, text);
+}
+
+function readFileOrNull(fsPath: string): string | null {
+    try {
+        return fs.readFileSync(fsPath, 'utf8');
+    } catch (e) {
+        return null;
+    }
+}
+
+/**
+ * Starts reporting document and disk changes to the journal.
+ */
+export function trackFileChanges(journal: AcceptJournal): vscode.Disposable[] {
+    vscode.workspace.textDocuments.forEach(cacheDocument);
+
+    const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+    const onDisk = (uri: vscode.Uri, kind: 'create' | 'change' | 'delete') => {
+        // Reading every changed file is only worth it right after an action
+        if (!journal.isCapturing || IGNORED_PATH.test(uri.fsPath)) return;
+        const open = vscode.workspace.textDocuments.some(d => d.uri.fsPath === uri.fsPath);
+        if (kind === 'create') journal.noteChange(uri.fsPath, null, readFileOrNull(uri.fsPath));
+        else if (kind === 'delete') journal.noteChange(uri.fsPath, documentCache.get(uri.fsPath), null);
+        else if (!open) journal.noteChange(uri.fsPath, undefined, readFileOrNull(uri.fsPath));
+    };
+
+    return [
+        watcher,
+        watcher.onDidCreate(uri => onDisk(uri, 'create')),
+        watcher.onDidChange(uri => onDisk(uri, 'change')),
+        watcher.onDidDelete(uri => onDisk(uri, 'delete')),
+        vscode.workspace.onDidOpenTextDocument(cacheDocument),
+        vscode.workspace.onDidCloseTextDocument(doc => documentCache.delete(doc.uri.fsPath)),
+        vscode.workspace.onDidChangeTextDocument(e => {
+            const doc = e.document;
+            if (doc.uri.scheme !== 'file' || e.contentChanges.length === 0) return;
+            const before = documentCache.get(doc.uri.fsPath);
+            cacheDocument(doc);
+            journal.noteChange(doc.uri.fsPath, before, doc.getText());
+        })
+    ];
+}
+
+/**
+ * Sum of the versions of all open files; changes whenever any of them is edited.
+ */
+export function documentVersionStamp(): number {
+    return vscode.workspace.textDocuments.reduce((sum, d) => d.uri.scheme === 'file' ? sum + d.version : sum, 0);
+}
+
+function describe(entry: JournalEntry): string {
+    if (entry.strategy === 'native') return `Native ${entry.command}`;
+    const el = entry.element;
+    const text = el ? (el.text || el.label || el.title || el.tagName).trim() : 'element';
+    return `CDP "${text}"`;
+}
+
+/**
+ * A file a restore left alone, and why.
+ */
+interface SkippedFile {
+    path: string;
+    reason: string;
+}
+
+/**
+ * The file's content now: the open document's text, or what is on disk (null if missing).
+ */
+function currentContent(fsPath: string): string | null {
+    const doc = vscode.workspace.textDocuments.find(d => d.uri.fsPath === fsPath);
+    return doc ? doc.getText() : readFileOrNull(fsPath);
+}
+
+/**
+ * Restores the pre-action content of every file in the given entries (newest first), see
+ * AcceptJournal.restorePlan. Returns the files that were not restored.
+ */
+async function restoreEntries(journal: AcceptJournal, entries: JournalEntry[], log: (msg: string) => void): Promise<SkippedFile[]> {
+    const skipped: SkippedFile[] = [];
+    for (const entry of entries) {
+        const edit = new vscode.WorkspaceEdit();
+        const edited: string[] = [];
+        for (const { file, content, skip } of journal.restorePlan(entry, currentContent)) {
+            if (skip !== null) {
+                log(`[JOURNAL] Not restoring ${file.path}: ${skip}`);
+                skipped.push({ path: file.path, reason: skip });
+                continue;
+            }
+            const uri = vscode.Uri.file(file.path);
+            try {
+                if (content === null) {
+                    await vscode.workspace.fs.delete(uri, { useTrash: true });
+                    continue;
+                }
+                const doc = vscode.workspace.textDocuments.find(d => d.uri.fsPath === file.path);
+                if (doc && !file.deleted) {
+                    // Edit open documents in place so the restore itself can be undone in the editor
+                    edit.replace(uri, new vscode.Range(doc.positionAt(0), doc.positionAt(doc.getText().length)), content);
+                    edited.push(file.path);
+                } else {
+                    await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(content));
+                }
+            } catch (e: any) {
+                log(`[JOURNAL] Could not restore ${file.path}: ${e.message}`);
+                skipped.push({ path: file.path, reason: e.message });
+            }
+        }
+        if (!await vscode.workspace.applyEdit(edit)) {
+            log(`[JOURNAL] Could not apply the restore of ${describe(entry)} from ${entry.time}`);
+            skipped.push(...edited.map(p => ({ path: p, reason: 'the editor rejected the edit' })));
+            continue;
+        }
+        journal.markUndone(entry);
+        log(`[JOURNAL] Undid ${describe(entry)} from ${entry.time} (${entry.files.length} file(s))`);
+    }
+    return skipped;
+}
+
+function reportRestore(count: number, skipped: SkippedFile[]) {
+    if (skipped.length > 0) {
+        const files = skipped.map(f => `${path.basename(f.path)} (${f.reason})`).join(', ');
+        vscode.window.showWarningMessage(`Kayorama: Undid ${count} action(s); ${skipped.length} file(s) were not restored: ${files}`);
+    } else {
+        vscode.window.showInformationMessage(`Kayorama: Undid ${count} autopilot action(s).`);
+    }
+}
+
+export async function undoLastAction(journal: AcceptJournal, log: (msg: string) => void) {
+    const entry = journal.lastUndoable();
+    if (!entry) {
+        vscode.window.showInformationMessage('Kayorama: Nothing to undo.');
+        return;
+    }
+    const skipped = await restoreEntries(journal, [entry], log);
+    reportRestore(1, skipped);
+}
+
+export async function reviewSession(journal: AcceptJournal, log: (msg: string) => void) {
+    const items = journal.all.slice().reverse().map(entry => ({
+        label: `${entry.undone ? '$(discard)' : '$(check)'} ${new Date(entry.time).toLocaleTimeString()} ${describe(entry)}`,
+        description: entry.session || '',
+        detail: entry.files.length > 0
+            ? entry.files.map(f => vscode.workspace.asRelativePath(f.path)).join(', ')
+            : 'No file changes recorded',
+        entry
+    }));
+    if (items.length === 0) {
+        vscode.window.showInformationMessage('Kayorama: The autopilot journal is empty.');
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Autopilot actions (newest first). Pick one to review or restore.',
+        matchOnDescription: true,
+        matchOnDetail: true
+    });
+    if (!picked) return;
+
+    const entry = picked.entry;
+    const later = journal.entriesFrom(entry);
+    const actions: (vscode.QuickPickItem & { run: () => Promise<void> })[] = [];
+
+    if (!entry.undone) {
+        actions.push({
+            label: '$(discard) Restore files to before this action',
+            description: later.length > 1 ? `undoes this and ${later.length - 1} later action(s)` : undefined,
+            run: async () => reportRestore(later.length, await restoreEntries(journal, later, log))
+        });
+    }
+    for (const file of entry.files) {
+        if (!file.before || !file.after) continue;
+        actions.push({
+            label: `$(diff) ${vscode.workspace.asRelativePath(file.path)}`,
+            description: 'show changes made by this action',
+            run: async () => {
+                const before = vscode.Uri.file(journal.snapshotPath(entry, file.before!));
+                const after = vscode.Uri.file(journal.snapshotPath(entry, file.after!));
+                await vscode.commands.executeCommand('vscode.diff', before, after, `${path.basename(file.path)} (Autopilot ${entry.time})`);
+            }
+        });
+    }
+    if (actions.length === 0) {
+        vscode.window.showInformationMessage('Kayorama: Nothing to restore for this action.');
+        return;
+    }
+
+    const action = await vscode.window.showQuickPick(actions, { placeHolder: describe(entry) });
+    if (action) await action.run();
+}
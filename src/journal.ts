@@ -0,0 +1,259 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ActionCategory } from './rules';
+
+export type JournalStrategy = 'cdp' | 'native';
+
+export interface JournalElement {
+    tagName: string;
+    text: string;
+    label: string | null;
+    title: string | null;
+    score: number;
+    ruleId: string | null;
+    /** Missing in entries journaled before action categories existed */
+    category?: ActionCategory;
+}
+
+/**
+ * A workspace file touched shortly after an autopilot action.
+ * `before` / `after` are snapshot file names inside the entry's directory.
+ */
+export interface JournalFile {
+    path: string;
+    before: string | null;
+    after: string | null;
+    /** The file did not exist before the action */
+    created: boolean;
+    /** The file was removed by the action */
+    deleted: boolean;
+    /** The content before the action was not known (file was not open), so it cannot be restored */
+    beforeUnknown: boolean;
+}
+
+export interface JournalAction {
+    strategy: JournalStrategy;
+    /** CDP session title, for CDP clicks */
+    session?: string;
+    element?: JournalElement;
+    /** Command ID, for native accepts */
+    command?: string;
+}
+
+export interface JournalEntry {
+    id: string;
+    time: string;
+    strategy: JournalStrategy;
+    session: string | null;
+    element: JournalElement | null;
+    command: string | null;
+    files: JournalFile[];
+    undone: boolean;
+}
+
+/**
+ * How undoing an entry treats one of its files: `content` is written back (null deletes a file
+ * the action created), unless `skip` says why the file is left alone.
+ */
+export interface FileRestore {
+    file: JournalFile;
+    content: string | null;
+    skip: string | null;
+}
+
+export interface JournalOptions {
+    /** How long after an action file changes are attributed to it */
+    captureMs: number;
+    maxEntries: number;
+}
+
+interface BufferedChange {
+    time: number;
+    path: string;
+    /** undefined = unknown, null = file did not exist */
+    before: string | null | undefined;
+    /** null = file was deleted */
+    after: string | null;
+}
+
+const INDEX_FILE = 'journal.json';
+
+/**
+ * Persistent record of every autopilot action, backed by snapshots of the files it changed.
+ */
+export class AcceptJournal {
+    private entries: JournalEntry[] = [];
+    private recent: BufferedChange[] = [];
+    private open: { entry: JournalEntry; until: number } | null = null;
+    private saveTimer: ReturnType<typeof setTimeout> | null = null;
+    private idCounter = 0;
+
+    constructor(private dir: string, private options: JournalOptions, private logger: (msg: string) => void) { }
+
+    private log(msg: string) {
+        this.logger(`[JOURNAL] ${msg}`);
+    }
+
+    load() {
+        try {
+            this.entries = JSON.parse(fs.readFileSync(path.join(this.dir, INDEX_FILE), 'utf8'));
+        } catch (e) {
+            this.entries = [];
+        }
+    }
+
+    get all(): readonly JournalEntry[] {
+        return this.entries;
+    }
+
+    /** True while file changes are being attributed to the latest action. */
+    get isCapturing(): boolean {
+        return this.open !== null && Date.now() <= this.open.until;
+    }
+
+    /**
+     * Records an action. File changes buffered since `since` and those arriving within
+     * the capture window are attached to it.
+     */
+    record(action: JournalAction, since = Date.now()): JournalEntry {
+        const entry: JournalEntry = {
+            id: `${Date.now().toString(36)}-${(this.idCounter++).toString(36)}`,
+            time: new Date().toISOString(),
+            strategy: action.strategy,
+            session: action.session ?? null,
+            element: action.element ?? null,
+            command: action.command ?? null,
+            files: [],
+            undone: false
+        };
+        this.entries.push(entry);
+        this.prune();
+
+        for (const change of this.recent) {
+            if (change.time >= since) this.attach(entry, change);
+        }
+        this.open = { entry, until: Date.now() + this.options.captureMs };
+        this.scheduleSave();
+        return entry;
+    }
+
+    /**
+     * Reports a file change. Outside a capture window the change is only buffered briefly.
+     */
+    noteChange(filePath: string, before: string | null | undefined, after: string | null) {
+        const now = Date.now();
+        const change: BufferedChange = { time: now, path: filePath, before, after };
+        this.recent = this.recent.filter(c => now - c.time <= this.options.captureMs);
+        this.recent.push(change);
+
+        if (this.open && now <= this.open.until) {
+            this.attach(this.open.entry, change);
+            this.scheduleSave();
+        }
+    }
+
+    private attach(entry: JournalEntry, change: BufferedChange) {
+        const entryDir = path.join(this.dir, entry.id);
+        let file = entry.files.find(f => f.path === change.path);
+        try {
+            fs.mkdirSync(entryDir, { recursive: true });
+            if (!file) {
+                const index = entry.files.length;
+                file = {
+                    path: change.path,
+                    before: null,
+                    after: null,
+                    created: change.before === null,
+                    deleted: false,
+                    beforeUnknown: change.before === undefined
+                };
+                if (typeof change.before === 'string') {
+                    file.before = `${index}.before`;
+                    fs.writeFileSync(path.join(entryDir, file.before), change.before);
+                }
+                entry.files.push(file);
+            }
+            // Only the latest content after the action matters
+            file.deleted = change.after === null;
+            if (change.after !== null) {
+                file.after = file.after || `${entry.files.indexOf(file)}.after`;
+                fs.writeFileSync(path.join(entryDir, file.after), change.after);
+            }
+        } catch (e: any) {
+            this.log(`Snapshot failed for ${change.path}: ${e.message}`);
+        }
+    }
+
+    /** Absolute path of a snapshot file of an entry. */
+    snapshotPath(entry: JournalEntry, name: string): string {
+        return path.join(this.dir, entry.id, name);
+    }
+
+    readSnapshot(entry: JournalEntry, name: string): string {
+        return fs.readFileSync(this.snapshotPath(entry, name), 'utf8');
+    }
+
+    /**
+     * Works out how to undo an entry, given each file's content now (null if it is missing).
+     * Files changed since the action are left alone, so later edits are not thrown away.
+     */
+    restorePlan(entry: JournalEntry, current: (filePath: string) => string | null): FileRestore[] {
+        return entry.files.map(file => {
+            const skip = (reason: string): FileRestore => ({ file, content: null, skip: reason });
+            if (!file.created && (file.beforeUnknown || !file.before)) return skip('content before the action unknown');
+            try {
+                const expected = file.deleted ? null : file.after ? this.readSnapshot(entry, file.after) : undefined;
+                if (expected === undefined || current(file.path) !== expected) return skip('changed since the action');
+                return { file, content: file.created ? null : this.readSnapshot(entry, file.before!), skip: null };
+            } catch (e: any) {
+                return skip(e.message);
+            }
+        });
+    }
+
+    /** The most recent action that has not been undone yet. */
+    lastUndoable(): JournalEntry | undefined {
+        for (let i = this.entries.length - 1; i >= 0; i--) {
+            if (!this.entries[i].undone) return this.entries[i];
+        }
+        return undefined;
+    }
+
+    /** The given entry and every later one that has not been undone, newest first. */
+    entriesFrom(entry: JournalEntry): JournalEntry[] {
+        const index = this.entries.indexOf(entry);
+        if (index < 0) return [];
+        return this.entries.slice(index).filter(e => !e.undone).reverse();
+    }
+
+    markUndone(entry: JournalEntry) {
+        entry.undone = true;
+        if (this.open?.entry === entry) this.open = null;
+        this.scheduleSave();
+    }
+
+    private prune() {
+        while (this.entries.length > this.options.maxEntries) {
+            const removed = this.entries.shift()!;
+            try {
+                fs.rmSync(path.join(this.dir, removed.id), { recursive: true, force: true });
+            } catch (e) { }
+        }
+    }
+
+    private scheduleSave() {
+        if (this.saveTimer) return;
+        this.saveTimer = setTimeout(() => this.flush(), 1000);
+    }
+
+    flush() {
+        if (this.saveTimer) clearTimeout(this.saveTimer);
+        this.saveTimer = null;
+        try {
+            fs.mkdirSync(this.dir, { recursive: true });
+            fs.writeFileSync(path.join(this.dir, INDEX_FILE), JSON.stringify(this.entries));
+        } catch (e: any) {
+            this.log(`Could not save journal: ${e.message}`);
+        }
+    }
+}
@@ -0,0 +1,156 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Leveled logging to the output channel and a JSON Lines file with size-based rotation.
+ * File writes are buffered and appended asynchronously, so logging from the poll loop
+ * costs no synchronous I/O.
+ */
+
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
+
+export const LOG_LEVELS: LogLevel[] = ['error', 'warn', 'info', 'debug'];
+
+export interface LogEntry {
+    time: string;
+    level: LogLevel;
+    /** The leading `[TAG]` of the message, e.g. `CLICKED` */
+    category: string | null;
+    message: string;
+}
+
+export interface LoggerOptions {
+    level: LogLevel;
+    /** JSON Lines file, or null for the output channel only */
+    file: string | null;
+    maxBytes: number;
+    /** Rotated files kept next to the current one (`<file>.1` is the newest) */
+    maxFiles: number;
+}
+
+export const DEFAULT_LOGGER_OPTIONS: LoggerOptions = { level: 'info', file: null, maxBytes: 1024 * 1024, maxFiles: 3 };
+
+/**
+ * Resolves `kayorama.logFile`. Rotation renames and deletes the file, so a path from workspace
+ * settings has to stay inside the workspace folder; absolute paths are only taken from user settings.
+ * Returns null if the path is not allowed.
+ */
+export function resolveLogFile(value: string, fromUserSettings: boolean, folder: string | null): string | null {
+    if (path.isAbsolute(value)) return fromUserSettings ? path.normalize(value) : null;
+    if (!folder) return null;
+    const file = path.resolve(folder, value);
+    const relative = path.relative(folder, file);
+    if (!relative || relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) return null;
+    return file;
+}
+
+const RECENT_ENTRIES = 500;
+const FLUSH_MS = 1000;
+const CATEGORY = /^\[([A-Z][A-Z _-]*)\]\s*/;
+
+export class Logger {
+    private options: LoggerOptions = DEFAULT_LOGGER_OPTIONS;
+    private recentEntries: LogEntry[] = [];
+    private buffer: string[] = [];
+    private flushTimer: ReturnType<typeof setTimeout> | null = null;
+    private writing: Promise<void> = Promise.resolve();
+    // Size of the current file, tracked so rotation needs no stat per write
+    private size = 0;
+
+    /**
+     * `sink` receives every entry at or above the level as a formatted line (the output channel).
+     */
+    constructor(private sink: (line: string) => void) { }
+
+    configure(options: LoggerOptions) {
+        if (options.file !== this.options.file) {
+            this.flushSync();
+            this.size = 0;
+            if (options.file) {
+                try {
+                    fs.mkdirSync(path.dirname(options.file), { recursive: true });
+                    this.size = fs.existsSync(options.file) ? fs.statSync(options.file).size : 0;
+                } catch (e) { }
+            }
+        }
+        this.options = options;
+    }
+
+    get file(): string | null {
+        return this.options.file;
+    }
+
+    enabled(level: LogLevel): boolean {
+        return LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(this.options.level);
+    }
+
+    log(level: LogLevel, message: string) {
+        if (!this.enabled(level)) return;
+        const time = new Date().toISOString();
+        const match = CATEGORY.exec(message);
+        const entry: LogEntry = { time, level, category: match ? match[1] : null, message: match ? message.slice(match[0].length) : message };
+
+        this.sink(`[${time.split('T')[1].slice(0, -1)}]${level === 'info' ? '' : ` ${level.toUpperCase()}`} ${message}`);
+        this.recentEntries.push(entry);
+        if (this.recentEntries.length > RECENT_ENTRIES) this.recentEntries.shift();
+
+        if (!this.options.file) return;
+        this.buffer.push(JSON.stringify(entry));
+        if (!this.flushTimer) this.flushTimer = setTimeout(() => this.flush(), FLUSH_MS);
+    }
+
+    /**
+     * The last entries logged at or above the current level, oldest first.
+     */
+    recent(limit = RECENT_ENTRIES): LogEntry[] {
+        return this.recentEntries.slice(-limit);
+    }
+
+    /**
+     * Appends the buffered lines. Writes are chained, so lines keep their order.
+     */
+    flush(): Promise<void> {
+        if (this.flushTimer) clearTimeout(this.flushTimer);
+        this.flushTimer = null;
+        const file = this.options.file;
+        if (!file || this.buffer.length === 0) return this.writing;
+        const data = this.buffer.join('\n') + '\n';
+        const bytes = Buffer.byteLength(data);
+        this.buffer = [];
+        this.writing = this.writing.then(async () => {
+            try {
+                if (this.size > 0 && this.size + bytes > this.options.maxBytes) await this.rotate(file);
+                await fs.promises.appendFile(file, data);
+                this.size += bytes;
+            } catch (e) { }
+        });
+        return this.writing;
+    }
+
+    /**
+     * Writes the buffer synchronously, for deactivation and before switching files.
+     */
+    flushSync() {
+        if (this.flushTimer) clearTimeout(this.flushTimer);
+        this.flushTimer = null;
+        const file = this.options.file;
+        if (!file || this.buffer.length === 0) return;
+        const data = this.buffer.join('\n') + '\n';
+        try {
+            fs.appendFileSync(file, data);
+            this.size += Buffer.byteLength(data);
+        } catch (e) { }
+        this.buffer = [];
+    }
+
+    private async rotate(file: string) {
+        const keep = Math.max(0, this.options.maxFiles);
+        await fs.promises.rm(`${file}.${keep}`, { force: true });
+        for (let i = keep - 1; i >= 1; i--) {
+            await fs.promises.rename(`${file}.${i}`, `${file}.${i + 1}`).catch(() => { });
+        }
+        if (keep > 0) await fs.promises.rename(file, `${file}.1`).catch(() => { });
+        else await fs.promises.rm(file, { force: true });
+        this.size = 0;
+    }
+}
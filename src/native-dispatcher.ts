@@ -0,0 +1,131 @@
+/**
+ * Native fallback dispatch: runs accept commands only if they exist and something they can
+ * accept is actually pending, and keeps per-command statistics for diagnostics.
+ */
+
+/**
+ * Evidence that an accept command has something to act on.
+ * - inlineSuggest: the user just typed in the active editor, so ghost text may be showing
+ * - externalEdit: a visible editor was edited away from the cursor (inline chat / agent edit)
+ * - chatEditing: a chat editing session has pending file edits
+ * - refactorPreview: the Refactor Preview is open
+ * - terminal: a terminal was opened, focused or used recently (terminal chat may have a proposed command)
+ * - always: no gating
+ */
+export type PendingSignal = 'inlineSuggest' | 'externalEdit' | 'chatEditing' | 'refactorPreview' | 'terminal' | 'always';
+
+export const PENDING_SIGNALS: PendingSignal[] = ['inlineSuggest', 'externalEdit', 'chatEditing', 'refactorPreview', 'terminal', 'always'];
+
+/** Stands in for the CDP session title of native commands in reports and statistics. */
+export const NATIVE_SESSION = 'Native Mode';
+
+export interface NativeCommand {
+    command: string;
+    /** The command runs only while at least one of these signals is active */
+    when: PendingSignal[];
+}
+
+export interface CommandStats {
+    success: number;
+    failure: number;
+    lastError: string | null;
+    lastRun: number | null;
+}
+
+/**
+ * Tracks which commands exist and how each one fared.
+ */
+export class NativeDispatcher {
+    private available: Set<string> | null = null;
+    private stats: Map<string, CommandStats> = new Map();
+
+    constructor(private execute: (command: string) => Thenable<unknown>, private logger: (msg: string) => void) { }
+
+    private log(msg: string) {
+        this.logger(`[NATIVE] ${msg}`);
+    }
+
+    /**
+     * Records the commands registered in this window (vscode.commands.getCommands).
+     */
+    setAvailableCommands(commands: string[]) {
+        this.available = new Set(commands);
+    }
+
+    isAvailable(command: string): boolean {
+        return this.available === null || this.available.has(command);
+    }
+
+    /**
+     * The commands worth running now, in configured order: registered and gated by an active signal.
+     */
+    plan(commands: NativeCommand[], signals: Set<PendingSignal>): NativeCommand[] {
+        return commands.filter(c =>
+            this.isAvailable(c.command) &&
+            c.when.some(s => s === 'always' || signals.has(s)));
+    }
+
+    /**
+     * Runs a command and updates its counters. Returns false if it threw.
+     */
+    async run(command: string): Promise<boolean> {
+        const stats = this.statsFor(command);
+        stats.lastRun = Date.now();
+        try {
+            await this.execute(command);
+            stats.success++;
+            return true;
+        } catch (e: any) {
+            stats.failure++;
+            const message = e?.message || String(e);
+            // Only log when the failure changes, the same error on every poll is noise
+            if (stats.lastError !== message) this.log(`${command} failed: ${message}`);
+            stats.lastError = message;
+            return false;
+        }
+    }
+
+    private statsFor(command: string): CommandStats {
+        let stats = this.stats.get(command);
+        if (!stats) this.stats.set(command, stats = { success: 0, failure: 0, lastError: null, lastRun: null });
+        return stats;
+    }
+
+    /**
+     * One line per configured command for the diagnostics dump.
+     */
+    describe(commands: NativeCommand[]): string[] {
+        return commands.map(c => {
+            if (!this.isAvailable(c.command)) return `${c.command}: not available`;
+            const s = this.stats.get(c.command);
+            if (!s) return `${c.command}: never run (when: ${c.when.join('|')})`;
+            const error = s.lastError ? `, last error: ${s.lastError}` : '';
+            return `${c.command}: ${s.success} ok / ${s.failure} failed (when: ${c.when.join('|')})${error}`;
+        });
+    }
+}
+
+/**
+ * Validates `kayorama.nativeCommands`.
+ */
+export function parseNativeCommands(raw: unknown, errors: string[]): NativeCommand[] {
+    if (!Array.isArray(raw)) {
+        errors.push('kayorama.nativeCommands must be an array');
+        return [];
+    }
+    const result: NativeCommand[] = [];
+    raw.forEach((item, i) => {
+        const entry = typeof item === 'string' ? { command: item, when: ['always'] } : item;
+        if (!entry || typeof entry.command !== 'string' || !entry.command) {
+            errors.push(`nativeCommands[${i}]: missing command`);
+            return;
+        }
+        const when = entry.when === undefined ? ['always'] : entry.when;
+        if (!Array.isArray(when) || !when.every((s: unknown) => PENDING_SIGNALS.includes(s as PendingSignal))) {
+            errors.push(`nativeCommands[${i}]: when must be a list of ${PENDING_SIGNALS.join(', ')}`);
+            return;
+        }
+        result.push({ command: entry.command, when });
+    });
+    return result;
+}
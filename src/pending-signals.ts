@@ -0,0 +1,66 @@
+import * as vscode from 'vscode';
+import { PendingSignal } from './native-dispatcher';
+
+/**
+ * Watches the editor for evidence that a native accept command has something to accept.
+ * Signals based on edits and terminal events expire after a while; the others are read from the
+ * current UI state.
+ */
+
+const TYPING_TTL_MS = 10000;
+const EXTERNAL_EDIT_TTL_MS = 60000;
+const TERMINAL_TTL_MS = 30000;
+const CHAT_EDITING_SCHEME = /^chat-editing/;
+const REFACTOR_PREVIEW_SCHEME = /^vscode-bulkeditpreview/;
+
+export class PendingSignals {
+    private lastTyping = 0;
+    private lastExternalEdit = 0;
+    private lastTerminal = 0;
+
+    /**
+     * Starts listening for edits and terminal events. Dispose the returned disposables to stop.
+     */
+    activate(): vscode.Disposable[] {
+        // An open terminal proves nothing; one that just opened, got focus or was used may have a step waiting
+        const onTerminal = () => { this.lastTerminal = Date.now(); };
+        return [
+            vscode.workspace.onDidChangeTextDocument(e => this.onEdit(e)),
+            vscode.window.onDidOpenTerminal(onTerminal),
+            vscode.window.onDidChangeActiveTerminal(terminal => { if (terminal) onTerminal(); }),
+            vscode.window.onDidChangeTerminalState(onTerminal),
+            // Moving the cursor elsewhere dismisses ghost text
+            vscode.window.onDidChangeTextEditorSelection(e => {
+                if (e.kind === vscode.TextEditorSelectionChangeKind.Mouse) this.lastTyping = 0;
+            })
+        ];
+    }
+
+    private onEdit(e: vscode.TextDocumentChangeEvent) {
+        if (e.contentChanges.length === 0 || e.document.uri.scheme !== 'file') return;
+        const editor = vscode.window.visibleTextEditors.find(ed => ed.document === e.document);
+        if (!editor) return;
+
+        // An edit that touches a cursor line is typing; anything else was made by something else
+        const atCursor = e.contentChanges.every(change =>
+            editor.selections.some(sel => Math.abs(sel.active.line - change.range.start.line) <= 1));
+        if (atCursor && editor === vscode.window.activeTextEditor) {
+            this.lastTyping = Date.now();
+        } else if (!atCursor) {
+            this.lastExternalEdit = Date.now();
+        }
+    }
+
+    active(): Set<PendingSignal> {
+        const now = Date.now();
+        const signals = new Set<PendingSignal>();
+        if (now - this.lastTyping < TYPING_TTL_MS) signals.add('inlineSuggest');
+        if (now - this.lastExternalEdit < EXTERNAL_EDIT_TTL_MS) signals.add('externalEdit');
+
+        const schemes = vscode.workspace.textDocuments.map(d => d.uri.scheme);
+        if (schemes.some(s => CHAT_EDITING_SCHEME.test(s))) signals.add('chatEditing');
+        if (schemes.some(s => REFACTOR_PREVIEW_SCHEME.test(s))) signals.add('refactorPreview');
+        if (now - this.lastTerminal < TERMINAL_TTL_MS) signals.add('terminal');
+        return signals;
+    }
+}
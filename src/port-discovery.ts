@@ -0,0 +1,113 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+
+/**
+ * Finds the remote debugging port of the editor instead of relying on `kayorama.cdpPort`:
+ * the DevToolsActivePort file Chromium writes into its user data directory first, then the
+ * configured port, then a port range. A port only counts if it answers `/json/version`.
+ */
+
+export interface PortDiscoveryOptions {
+    host: string;
+    configuredPort: number;
+    /** Inclusive port ranges to scan */
+    ranges: [number, number][];
+    /** Directories that may hold a DevToolsActivePort file */
+    userDataDirs: string[];
+    timeoutMs: number;
+}
+
+export type PortSource = 'DevToolsActivePort' | 'setting' | 'range';
+
+export interface DebugEndpoint {
+    port: number;
+    source: PortSource;
+    /** `Browser` from /json/version, e.g. Chrome/120.0.6099.291 */
+    browser: string;
+    userAgent: string;
+}
+
+/** Ranges with more ports than this are cut, a scan must stay cheap. */
+const MAX_SCANNED_PORTS = 200;
+
+/**
+ * Parses `kayorama.portRange`, e.g. "9000-9010, 9222".
+ */
+export function parsePortRanges(spec: string, errors: string[]): [number, number][] {
+    const ranges: [number, number][] = [];
+    for (const part of spec.split(',').map(p => p.trim()).filter(Boolean)) {
+        const match = /^(\d+)(?:\s*-\s*(\d+))?$/.exec(part);
+        const from = match ? Number(match[1]) : NaN;
+        const to = match && match[2] ? Number(match[2]) : from;
+        if (!match || from < 1 || to > 65535 || from > to) {
+            errors.push(`portRange: "${part}" is not a port or a port range like 9000-9010`);
+            continue;
+        }
+        ranges.push([from, to]);
+    }
+    return ranges;
+}
+
+/**
+ * Returns the port from the first readable DevToolsActivePort file, or null.
+ */
+export function readDevToolsActivePort(dirs: string[]): number | null {
+    for (const dir of dirs) {
+        try {
+            const port = Number(fs.readFileSync(path.join(dir, 'DevToolsActivePort'), 'utf8').split(/\r?\n/)[0]);
+            if (Number.isInteger(port) && port > 0 && port <= 65535) return port;
+        } catch (e) {
+            // Not there: the editor was started without a debugging port
+        }
+    }
+    return null;
+}
+
+/**
+ * Resolves with the /json/version answer of a DevTools endpoint, or null if the port is closed
+ * or something else listens there.
+ */
+export function probeVersion(host: string, port: number, timeoutMs: number): Promise<{ browser: string; userAgent: string } | null> {
+    return new Promise(resolve => {
+        const req = http.get({ hostname: host, port, path: '/json/version', timeout: timeoutMs }, res => {
+            let body = '';
+            res.on('data', chunk => body += chunk);
+            res.on('end', () => {
+                try {
+                    const version = JSON.parse(body);
+                    resolve(typeof version.Browser === 'string' ? { browser: version.Browser, userAgent: version['User-Agent'] || '' } : null);
+                } catch (e) {
+                    resolve(null);
+                }
+            });
+        });
+        req.on('error', () => resolve(null));
+        req.on('timeout', () => { req.destroy(); resolve(null); });
+    });
+}
+
+/**
+ * Returns every live DevTools endpoint, most trustworthy source first, without duplicates.
+ */
+export async function discoverEndpoints(options: PortDiscoveryOptions): Promise<DebugEndpoint[]> {
+    const candidates: { port: number; source: PortSource }[] = [];
+    const add = (port: number, source: PortSource) => {
+        if (!candidates.some(c => c.port === port)) candidates.push({ port, source });
+    };
+
+    const activePort = readDevToolsActivePort(options.userDataDirs);
+    if (activePort !== null) add(activePort, 'DevToolsActivePort');
+    if (options.configuredPort > 0) add(options.configuredPort, 'setting');
+    for (const [from, to] of options.ranges) {
+        for (let port = from; port <= to && candidates.length < MAX_SCANNED_PORTS; port++) add(port, 'range');
+    }
+
+    const versions = await Promise.all(candidates.map(c => probeVersion(options.host, c.port, options.timeoutMs)));
+    const endpoints: DebugEndpoint[] = [];
+    candidates.forEach((c, i) => {
+        const version = versions[i];
+        if (version) endpoints.push({ ...c, ...version });
+    });
+    return endpoints;
+}
@@ -0,0 +1,168 @@
+import { ClickRule, CompiledRule, compileRule } from './rules';
+import { NativeCommand } from './native-dispatcher';
+
+/**
+ * Decides which CDP targets belong to a provider.
+ * Patterns are case-insensitive regular expressions; a target matches if ANY pattern matches.
+ */
+export interface TargetMatcher {
+    urlPatterns: string[];
+    titlePatterns: string[];
+}
+
+/**
+ * A named bundle of everything autopilot needs to drive one AI provider.
+ */
+export interface ProviderProfile {
+    id: string;
+    label: string;
+    /** Installed extensions that indicate the provider is present */
+    extensionIds: string[];
+    /** Command ID prefixes that indicate the provider is present */
+    commandPrefixes: string[];
+    targets: TargetMatcher;
+    /** DOM rules added on top of the global rules for matching targets */
+    rules: ClickRule[];
+    /** Native accept commands for the command fallback strategy, in order */
+    commands: NativeCommand[];
+}
+
+/** `kayorama.profiles.<id>.enabled`: 'auto' follows detection. */
+export type ProfileEnablement = boolean | 'auto';
+
+/** How a candidate is clicked: DOM events from script, or real input through CDP. */
+export type ClickMode = 'synthetic' | 'trusted';
+
+/** Whether a found candidate is clicked: never, after a cancellable countdown, or at once. */
+export type AcceptMode = 'off' | 'confirm' | 'auto';
+
+export interface ProfileSettings {
+    enabled?: ProfileEnablement;
+    /** Overrides `kayorama.clickMode` for targets of this profile */
+    clickMode?: ClickMode;
+    /** Overrides `kayorama.acceptMode` for targets of this profile */
+    acceptMode?: AcceptMode;
+}
+
+/**
+ * Runtime state of a profile after detection and settings are applied.
+ */
+export interface ProfileState {
+    profile: ProviderProfile;
+    detected: boolean;
+    enabled: boolean;
+    rules: CompiledRule[];
+    clickMode: ClickMode | null;
+    acceptMode: AcceptMode | null;
+}
+
+const WORKBENCH_URL = '^vscode-file://';
+
+export const BUILTIN_PROFILES: ProviderProfile[] = [
+    {
+        id: 'antigravity',
+        label: 'Antigravity',
+        extensionIds: [],
+        commandPrefixes: ['antigravity.'],
+        targets: { urlPatterns: [WORKBENCH_URL, 'antigravity', 'jetski'], titlePatterns: ['antigravity'] },
+        rules: [
+            { id: 'antigravity.step.accept', ariaLabel: { startsWith: 'accept' }, ancestor: '[class*="agent" i]', score: 85 }
+        ],
+        commands: [
+            { command: 'antigravity.command.accept', when: ['externalEdit', 'chatEditing'] },
+            { command: 'antigravity.agent.acceptAgentStep', when: ['externalEdit', 'chatEditing'] },
+            { command: 'antigravity.prioritized.agentAcceptAllInFile', when: ['externalEdit', 'chatEditing'] }
+        ]
+    },
+    {
+        id: 'copilot',
+        label: 'Copilot',
+        extensionIds: ['github.copilot', 'github.copilot-chat'],
+        commandPrefixes: ['github.copilot.'],
+        targets: { urlPatterns: [WORKBENCH_URL, 'extensionId=github\\.copilot'], titlePatterns: ['visual studio code'] },
+        rules: [
+            { id: 'copilot.chat-editing.keep', anyText: { equals: ['keep', 'accept'] }, ancestor: '.chat-editing-session, .chat-editor-overlay-widget', score: 85 }
+        ],
+        commands: [
+            { command: 'chatEditing.acceptAllFiles', when: ['chatEditing'] },
+            { command: 'editor.action.inlineSuggest.commit', when: ['inlineSuggest'] }
+        ]
+    },
+    {
+        id: 'supermaven',
+        label: 'Supermaven',
+        extensionIds: ['supermaven.supermaven'],
+        commandPrefixes: ['supermaven.'],
+        targets: { urlPatterns: ['extensionId=supermaven\\.supermaven'], titlePatterns: ['supermaven'] },
+        rules: [
+            { id: 'supermaven.chat.apply', text: 'apply', selector: 'button', score: 80 }
+        ],
+        commands: [
+            { command: 'editor.action.inlineSuggest.commit', when: ['inlineSuggest'] }
+        ]
+    },
+    {
+        id: 'inlineChat',
+        label: 'Inline Chat',
+        extensionIds: [],
+        commandPrefixes: ['inlineChat.'],
+        targets: { urlPatterns: [WORKBENCH_URL], titlePatterns: [] },
+        rules: [
+            { id: 'inline-chat.accept', anyText: { equals: ['accept', 'keep'] }, ancestor: '.inline-chat', score: 85 }
+        ],
+        commands: [
+            { command: 'inlineChat.acceptChanges', when: ['externalEdit'] },
+            { command: 'interactive.acceptChanges', when: ['externalEdit'] },
+            { command: 'workbench.action.terminal.chat.runCommand', when: ['terminal'] },
+            { command: 'workbench.action.acceptRefactoring', when: ['refactorPreview'] }
+        ]
+    }
+];
+
+/**
+ * Returns true if the provider appears to be installed.
+ */
+export function detectProfile(profile: ProviderProfile, extensionIds: string[], commands: string[]): boolean {
+    const installed = new Set(extensionIds.map(id => id.toLowerCase()));
+    if (profile.extensionIds.some(id => installed.has(id.toLowerCase()))) return true;
+    return commands.some(cmd => profile.commandPrefixes.some(prefix => cmd.startsWith(prefix)));
+}
+
+/**
+ * Applies detection and the `kayorama.profiles` setting to every built-in profile.
+ */
+export function resolveProfiles(
+    settings: Record<string, ProfileSettings | undefined>,
+    extensionIds: string[],
+    commands: string[],
+    errors: string[]
+): ProfileState[] {
+    return BUILTIN_PROFILES.map(profile => {
+        const detected = detectProfile(profile, extensionIds, commands);
+        const setting = settings[profile.id]?.enabled ?? 'auto';
+        const clickMode = settings[profile.id]?.clickMode;
+        const acceptMode = settings[profile.id]?.acceptMode;
+        const rules: CompiledRule[] = [];
+        profile.rules.forEach((r, i) => {
+            const compiled = compileRule(r, `${profile.id}.${i}`, errors);
+            if (compiled) rules.push(compiled);
+        });
+        return {
+            profile,
+            detected,
+            enabled: setting === 'auto' ? detected : setting === true,
+            rules,
+            clickMode: clickMode === 'synthetic' || clickMode === 'trusted' ? clickMode : null,
+            acceptMode: acceptMode === 'off' || acceptMode === 'confirm' || acceptMode === 'auto' ? acceptMode : null
+        };
+    });
+}
+
+/**
+ * Returns true if a CDP target (by URL and title) belongs to the profile.
+ */
+export function matchesTarget(profile: ProviderProfile, url: string, title: string): boolean {
+    const { urlPatterns, titlePatterns } = profile.targets;
+    return urlPatterns.some(p => new RegExp(p, 'i').test(url)) ||
+        titlePatterns.some(p => new RegExp(p, 'i').test(title));
+}
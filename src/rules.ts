@@ -0,0 +1,278 @@
+/**
+ * Click rule engine.
+ * Rules describe which elements the CDP scanner may click (allow) or must never click (deny).
+ * They are validated here and compiled into the injected scan script (see scan-script.ts).
+ */
+
+export type RuleEffect = 'allow' | 'deny';
+
+/**
+ * What clicking a candidate does for the agent. `accept` covers the accept/apply buttons;
+ * the others keep a long session going (see action-categories.ts).
+ */
+export type ActionCategory = 'accept' | 'continue' | 'retry' | 'allow' | 'keepGoing';
+
+export const ACTION_CATEGORIES: ActionCategory[] = ['accept', 'continue', 'retry', 'allow', 'keepGoing'];
+
+/**
+ * Matches a (trimmed, lower-cased) string. A plain string is shorthand for `{ equals: string }`.
+ * All listed operators are OR-ed together.
+ */
+export type TextMatcher = string | {
+    equals?: string | string[];
+    startsWith?: string | string[];
+    contains?: string | string[];
+    regex?: string;
+};
+
+/**
+ * A rule as written by the user in `kayorama.rules`.
+ * Every condition that is present must match (AND).
+ */
+export interface ClickRule {
+    id?: string;
+    effect?: RuleEffect;
+    score?: number;
+    /**
+     * Allow rules: the action a click performs (default `accept`).
+     * Deny rules: only veto allow rules of this category (default: all categories).
+     */
+    category?: ActionCategory;
+    /** Element textContent */
+    text?: TextMatcher;
+    /** aria-label attribute */
+    ariaLabel?: TextMatcher;
+    /** title attribute */
+    title?: TextMatcher;
+    /** Matches if text, aria-label OR title matches */
+    anyText?: TextMatcher;
+    /** className string */
+    className?: TextMatcher;
+    /** role attribute (exact) */
+    role?: string;
+    /** CSS selector the element itself must match */
+    selector?: string;
+    /** CSS selector one of the element's ancestors must match */
+    ancestor?: string;
+    /** Regex tested against the CDP target URL; the rule only applies to matching targets */
+    targetUrl?: string;
+}
+
+/**
+ * Normalized matcher as embedded in the injected script.
+ */
+export interface CompiledMatcher {
+    equals: string[];
+    startsWith: string[];
+    contains: string[];
+    regex: string | null;
+}
+
+/**
+ * Normalized rule as embedded in the injected script.
+ */
+export interface CompiledRule {
+    id: string;
+    effect: RuleEffect;
+    score: number;
+    /** Always set for allow rules; null for deny rules that apply to every category */
+    category: ActionCategory | null;
+    text: CompiledMatcher | null;
+    ariaLabel: CompiledMatcher | null;
+    title: CompiledMatcher | null;
+    anyText: CompiledMatcher | null;
+    className: CompiledMatcher | null;
+    role: string | null;
+    selector: string | null;
+    ancestor: string | null;
+    targetUrl: string | null;
+}
+
+export interface RuleValidationResult {
+    rules: CompiledRule[];
+    errors: string[];
+}
+
+/** Candidates scoring below this are never clicked. */
+export const MIN_SCORE = 60;
+/** Candidates scoring at least this are clicked even without a pointer cursor. */
+export const TRUSTED_SCORE = 90;
+
+const KEYWORDS = ['accept', 'accept all', 'apply'];
+
+/**
+ * The scoring that used to be hardcoded in executeCDPClickStrategy (v8.0.0).
+ */
+export const BUILTIN_RULES: ClickRule[] = [
+    { id: 'builtin.text.accept-all', text: 'accept all', score: 100 },
+    { id: 'builtin.aria-label.keyword', ariaLabel: { equals: KEYWORDS }, score: 95 },
+    { id: 'builtin.title.keyword', title: { equals: KEYWORDS }, score: 95 },
+    { id: 'builtin.text.accept-all-prefix', text: { startsWith: 'accept all' }, score: 90 },
+    { id: 'builtin.text.accept', text: 'accept', score: 80 },
+    { id: 'builtin.text.apply', text: 'apply', score: 75 },
+    { id: 'builtin.text.accept-all-contains', text: { contains: 'accept all' }, score: 65 },
+    {
+        id: 'builtin.deny.blacklist',
+        effect: 'deny',
+        anyText: {
+            contains: ['open', 'agent', 'manager', 'discard', 'cancel', 'debug', 'history', 'log', 'browser', 'split', 'editor', 'toggle']
+        }
+    },
+    // "run", "go" and "chat" are fine in "Run 5 more steps" or "Keep going"
+    { id: 'builtin.deny.accept-blacklist', effect: 'deny', category: 'accept', anyText: { contains: ['run', 'go', 'chat'] } },
+    { id: 'builtin.deny.workbench-chrome', effect: 'deny', className: { contains: ['statusbar', 'tab', 'monaco-breadcrumb'] } },
+    { id: 'builtin.deny.in-progress', effect: 'deny', anyText: { contains: 'accepting' } }
+];
+
+const MATCHER_FIELDS = ['text', 'ariaLabel', 'title', 'anyText', 'className'] as const;
+const STRING_FIELDS = ['role', 'selector', 'ancestor'] as const;
+
+function toList(value: unknown, where: string, errors: string[]): string[] {
+    if (value === undefined) return [];
+    const list = Array.isArray(value) ? value : [value];
+    if (!list.every(v => typeof v === 'string')) {
+        errors.push(`${where} must be a string or an array of strings`);
+        return [];
+    }
+    return list.map(v => v.trim().toLowerCase());
+}
+
+function checkRegex(source: unknown, where: string, errors: string[]): string | null {
+    if (typeof source !== 'string') {
+        errors.push(`${where} must be a string`);
+        return null;
+    }
+    try {
+        new RegExp(source, 'i');
+        return source;
+    } catch (e: any) {
+        errors.push(`${where} is not a valid regular expression (${e.message})`);
+        return null;
+    }
+}
+
+function compileMatcher(raw: unknown, where: string, errors: string[]): CompiledMatcher | null {
+    if (raw === undefined) return null;
+    if (typeof raw === 'string') {
+        return { equals: [raw.trim().toLowerCase()], startsWith: [], contains: [], regex: null };
+    }
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        errors.push(`${where} must be a string or an object`);
+        return null;
+    }
+    const m = raw as Record<string, unknown>;
+    const compiled: CompiledMatcher = {
+        equals: toList(m.equals, `${where}.equals`, errors),
+        startsWith: toList(m.startsWith, `${where}.startsWith`, errors),
+        contains: toList(m.contains, `${where}.contains`, errors),
+        regex: m.regex === undefined ? null : checkRegex(m.regex, `${where}.regex`, errors)
+    };
+    if (!compiled.equals.length && !compiled.startsWith.length && !compiled.contains.length && !compiled.regex) {
+        errors.push(`${where} has no equals/startsWith/contains/regex operator`);
+        return null;
+    }
+    return compiled;
+}
+
+/**
+ * Validates a single raw rule. Returns null (and pushes to `errors`) if it is unusable.
+ */
+export function compileRule(raw: unknown, fallbackId: string, errors: string[]): CompiledRule | null {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        errors.push(`${fallbackId}: rule must be an object`);
+        return null;
+    }
+    const r = raw as Record<string, unknown>;
+    const id = typeof r.id === 'string' && r.id.trim() ? r.id.trim() : fallbackId;
+    const ruleErrors: string[] = [];
+
+    const effect = r.effect === undefined ? 'allow' : r.effect;
+    if (effect !== 'allow' && effect !== 'deny') {
+        ruleErrors.push(`effect must be "allow" or "deny"`);
+    }
+
+    let score = 0;
+    if (effect === 'allow') {
+        if (typeof r.score !== 'number' || !isFinite(r.score)) ruleErrors.push('allow rules need a numeric score');
+        else score = r.score;
+    }
+
+    let category: ActionCategory | null = effect === 'allow' ? 'accept' : null;
+    if (r.category !== undefined) {
+        if (ACTION_CATEGORIES.includes(r.category as ActionCategory)) category = r.category as ActionCategory;
+        else ruleErrors.push(`category must be one of ${ACTION_CATEGORIES.join(', ')}`);
+    }
+
+    const compiled: CompiledRule = {
+        id,
+        effect: effect as RuleEffect,
+        score,
+        category,
+        text: null,
+        ariaLabel: null,
+        title: null,
+        anyText: null,
+        className: null,
+        role: null,
+        selector: null,
+        ancestor: null,
+        targetUrl: null
+    };
+
+    for (const field of MATCHER_FIELDS) {
+        compiled[field] = compileMatcher(r[field], field, ruleErrors);
+    }
+    for (const field of STRING_FIELDS) {
+        if (r[field] === undefined) continue;
+        if (typeof r[field] !== 'string' || !(r[field] as string).trim()) ruleErrors.push(`${field} must be a non-empty string`);
+        else compiled[field] = (r[field] as string).trim();
+    }
+    if (compiled.role) compiled.role = compiled.role.toLowerCase();
+    if (r.targetUrl !== undefined) compiled.targetUrl = checkRegex(r.targetUrl, 'targetUrl', ruleErrors);
+
+    const hasCondition = MATCHER_FIELDS.some(f => compiled[f]) || STRING_FIELDS.some(f => compiled[f]);
+    if (!hasCondition && !ruleErrors.length) {
+        ruleErrors.push('rule has no match condition');
+    }
+
+    if (ruleErrors.length) {
+        errors.push(...ruleErrors.map(e => `${id}: ${e}`));
+        return null;
+    }
+    return compiled;
+}
+
+/**
+ * Validates and compiles the built-in rules (optionally) followed by the user rules.
+ */
+export function loadRules(userRules: unknown, includeBuiltin: boolean): RuleValidationResult {
+    const errors: string[] = [];
+    const rules: CompiledRule[] = [];
+
+    if (includeBuiltin) {
+        BUILTIN_RULES.forEach((r, i) => {
+            const compiled = compileRule(r, `builtin.${i}`, errors);
+            if (compiled) rules.push(compiled);
+        });
+    }
+
+    if (userRules !== undefined && userRules !== null) {
+        if (!Array.isArray(userRules)) {
+            errors.push('kayorama.rules must be an array');
+        } else {
+            userRules.forEach((r, i) => {
+                const compiled = compileRule(r, `rules[${i}]`, errors);
+                if (compiled) rules.push(compiled);
+            });
+        }
+    }
+
+    return { rules, errors };
+}
+
+/**
+ * Returns the rules that apply to a CDP target with the given URL.
+ */
+export function rulesForTarget(rules: CompiledRule[], url: string): CompiledRule[] {
+    return rules.filter(r => !r.targetUrl || new RegExp(r.targetUrl, 'i').test(url));
+}
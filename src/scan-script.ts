@@ -0,0 +1,830 @@
+import { ACTION_CATEGORIES, ActionCategory, CompiledRule, MIN_SCORE, TRUSTED_SCORE } from './rules';
+
+export interface ScanOptions {
+    /** Selectors (searched in the candidate's ancestors) that hold a proposed terminal command */
+    commandSelectors: string[];
+}
+
+/**
+ * What the scan script reports about the winning candidate.
+ */
+export interface CandidateDetails {
+    tagName: string;
+    text: string;
+    label: string | null;
+    title: string | null;
+    score: number;
+    ruleId: string | null;
+    /** The category of the winning rule */
+    category: ActionCategory;
+    /** Proposed terminal command found next to the candidate, if any */
+    command: string | null;
+    /** Set when several different commands are equally near the candidate; `command` is null then */
+    commandAmbiguous: boolean;
+    /** Bounding box in top-page coordinates, null if it could not be computed */
+    rect: { x: number; y: number; width: number; height: number } | null;
+    /** The next best qualifying elements, best first (at most RUNNER_UP_COUNT) */
+    runnerUps: RunnerUp[];
+    /** Files the pending edit touches, as far as the page shows them */
+    files: EditedFile[];
+}
+
+/**
+ * A file named next to the candidate, with the diff stats shown for it (null if none are shown).
+ */
+export interface EditedFile {
+    path: string;
+    added: number | null;
+    removed: number | null;
+}
+
+export interface RunnerUp {
+    tagName: string;
+    text: string;
+    score: number;
+    ruleId: string | null;
+}
+
+const RUNNER_UP_COUNT = 3;
+
+/**
+ * Where chat and diff UIs show the files of a pending edit (file pills, working set rows, diff headers).
+ */
+const FILE_SELECTORS = [
+    '[data-file-path]',
+    '.monaco-icon-label[title]',
+    'a[href^="file:"]',
+    '[class*="filename" i]',
+    '[class*="file-name" i]'
+];
+// Last path segment has an extension: src/a.ts, .env.local, package-lock.json
+const FILE_PATH_RE = /(^|[\/\\])[^\/\\]*\.[\w-]+$/;
+// Diff stats such as "+12 -3"
+const LINE_STATS_RE = /\+(\d+)\s*[-\u2212](\d+)/;
+const MAX_FILES = 50;
+
+export const DEFAULT_COMMAND_SELECTORS = [
+    '[class*="terminal" i] code',
+    '[class*="terminal" i] pre',
+    'code.language-bash',
+    'code.language-sh',
+    'code.language-shell',
+    'code.language-zsh',
+    'code.language-powershell',
+    '[data-language="shellscript"]'
+];
+
+/**
+ * Bounding box of an element in top-page coordinates (same-origin iframe offsets added up).
+ */
+const PAGE_RECT_FN = `
+            function pageRect(el) {
+                const r = el.getBoundingClientRect();
+                let x = r.left, y = r.top;
+                let win = (el.ownerDocument || document).defaultView;
+                while (win && win !== window) {
+                    const frame = win.frameElement;
+                    if (!frame) return null;
+                    const fr = frame.getBoundingClientRect();
+                    x += fr.left + frame.clientLeft;
+                    y += fr.top + frame.clientTop;
+                    win = frame.ownerDocument.defaultView;
+                }
+                return { x: x, y: y, width: r.width, height: r.height };
+            }
+`;
+
+const FLASH_FN = `
+            function flash(el, color) {
+                try {
+                   el.style.outline = '4px solid ' + color;
+                   setTimeout(() => el.style.outline = '', 500);
+                } catch(e){}
+            }
+`;
+
+/**
+ * Shared scanner code embedded in the poll, observer and benchmark scripts.
+ * Logic: Evaluates the compiled rules (deny first), then checks STYLE (safely).
+ * The scan is wrapped in try/catch per frame to survive cross-origin iframe elements.
+ * scanAndStore() does NOT click: it stores the winner in window.__kayorama and returns its
+ * details (including any proposed terminal command) so the extension can decide.
+ * See CLICK_CANDIDATE_SCRIPT for the second step.
+ */
+function scanLibrary(rules: CompiledRule[], options: ScanOptions): string {
+    return `
+            const RULES = ${JSON.stringify(rules)};
+            const COMMAND_SELECTORS = ${JSON.stringify(options.commandSelectors)};
+            const MIN_SCORE = ${MIN_SCORE};
+            const TRUSTED_SCORE = ${TRUSTED_SCORE};
+            // Deny rules without a category veto every element; the others only their category's allow rules
+            const DENY = RULES.filter(r => r.effect === 'deny' && !r.category);
+            const CATEGORY_DENY = RULES.filter(r => r.effect === 'deny' && r.category);
+            const ALLOW = RULES.filter(r => r.effect === 'allow');
+            const regexCache = {};
+            // Every element that qualified during the current scan
+            let qualified = [];
+${PAGE_RECT_FN}
+            function matchText(m, s) {
+                if (m.equals.some(v => s === v)) return true;
+                if (m.startsWith.some(v => s.startsWith(v))) return true;
+                if (m.contains.some(v => s.includes(v))) return true;
+                if (m.regex) {
+                    const re = regexCache[m.regex] || (regexCache[m.regex] = new RegExp(m.regex, 'i'));
+                    if (re.test(s)) return true;
+                }
+                return false;
+            }
+
+            function matchRule(rule, el, info) {
+                if (rule.text && !matchText(rule.text, info.text)) return false;
+                if (rule.ariaLabel && !matchText(rule.ariaLabel, info.label)) return false;
+                if (rule.title && !matchText(rule.title, info.title)) return false;
+                if (rule.anyText && !(matchText(rule.anyText, info.text) || matchText(rule.anyText, info.label) || matchText(rule.anyText, info.title))) return false;
+                if (rule.className && !matchText(rule.className, info.cls)) return false;
+                if (rule.role && info.role !== rule.role) return false;
+                try {
+                    if (rule.selector && !el.matches(rule.selector)) return false;
+                    if (rule.ancestor && !(el.parentElement && el.parentElement.closest(rule.ancestor))) return false;
+                } catch(e) { return false; }
+                return true;
+            }
+
+            // Looks for the proposed shell command nearest to the candidate: the command blocks of the
+            // closest ancestor that has any. Several different ones there can't be told apart.
+            function extractCommand(el) {
+                let node = el;
+                for (let i = 0; i < 8 && node; i++) {
+                    node = node.parentElement || (node.parentNode && node.parentNode.host) || null;
+                    if (!node || !node.querySelectorAll) break;
+                    const blocks = [];
+                    for (const sel of COMMAND_SELECTORS) {
+                        try { blocks.push(...node.querySelectorAll(sel)); } catch(e) {}
+                    }
+                    // A code element inside a matching pre is the same block
+                    const texts = new Set(blocks
+                        .filter(b => !blocks.some(o => o !== b && o.contains(b)))
+                        .map(b => (b.textContent || '').trim())
+                        .filter(t => t));
+                    if (texts.size === 1) return { command: Array.from(texts)[0].substring(0, 2000), ambiguous: false };
+                    if (texts.size > 1) return { command: null, ambiguous: true };
+                }
+                return { command: null, ambiguous: false };
+            }
+
+            const FILE_SELECTORS = ${JSON.stringify(FILE_SELECTORS)};
+            const FILE_PATH = new RegExp(${JSON.stringify(FILE_PATH_RE.source)});
+            const LINE_STATS = new RegExp(${JSON.stringify(LINE_STATS_RE.source)});
+
+            function filePath(el) {
+                let raw = (el.getAttribute('data-file-path') || el.getAttribute('title') || el.getAttribute('href') || el.textContent || '').trim();
+                if (raw.startsWith('file://')) raw = raw.slice(7);
+                try { raw = decodeURIComponent(raw); } catch(e) {}
+                return raw.length < 500 && FILE_PATH.test(raw) ? raw : null;
+            }
+
+            function lineStats(el) {
+                const row = el.closest('[role="listitem"], [role="treeitem"], li, .monaco-list-row') || el.parentElement;
+                const match = row ? LINE_STATS.exec(row.textContent || '') : null;
+                return match ? { added: Number(match[1]), removed: Number(match[2]) } : { added: null, removed: null };
+            }
+
+            // Collects the files named in the nearest ancestor of the candidate that names any
+            function extractFiles(el) {
+                let node = el;
+                for (let i = 0; i < 8 && node; i++) {
+                    node = node.parentElement || (node.parentNode && node.parentNode.host) || null;
+                    if (!node || !node.querySelectorAll) break;
+                    const files = [];
+                    const seen = {};
+                    for (const sel of FILE_SELECTORS) {
+                        let found = [];
+                        try { found = Array.from(node.querySelectorAll(sel)); } catch(e) {}
+                        for (const f of found) {
+                            const path = filePath(f);
+                            if (!path || seen[path]) continue;
+                            seen[path] = true;
+                            const stats = lineStats(f);
+                            files.push({ path: path, added: stats.added, removed: stats.removed });
+                        }
+                    }
+                    if (files.length) return files.slice(0, ${MAX_FILES});
+                }
+                return [];
+            }
+
+            // Lets the observer (if installed) watch every document and shadow root the scan enters
+            function onRoot(root) {
+                const observer = window.__kayoramaObserver;
+                if (observer && (root.nodeType === 9 || root.nodeType === 11)) observer.observe(root);
+            }
+
+            function scan(root, depth = 0) {
+                if (depth > 20) return null;
+                onRoot(root);
+
+                let best = null;
+
+                let children = [];
+                try {
+                    if (root.querySelectorAll) {
+                         children = Array.from(root.querySelectorAll('*'));
+                    }
+                    if (root.tagName === 'IFRAME') {
+                        try {
+                            if (root.contentDocument) {
+                                const iframeResult = scan(root.contentDocument, depth + 1);
+                                if (iframeResult && (!best || iframeResult.score > best.score)) best = iframeResult;
+                            }
+                        } catch(e) {}
+                    }
+                } catch(e) { return null; }
+
+                for (const el of children) {
+                    if (el.shadowRoot) {
+                        const shadowResult = scan(el.shadowRoot, depth + 1);
+                        if (shadowResult && (!best || shadowResult.score > best.score)) best = shadowResult;
+                    }
+                    if (el.tagName === 'IFRAME') {
+                         const iframeResult = scan(el, depth + 1);
+                         if (iframeResult && (!best || iframeResult.score > best.score)) best = iframeResult;
+                    }
+
+                    // --- ELEMENT EVALUATION (Rules FIRST) ---
+                    if (el.offsetParent === null) continue;
+
+                    const info = {
+                        text: (el.textContent || '').trim().toLowerCase(),
+                        label: (el.getAttribute('aria-label') || '').trim().toLowerCase(),
+                        title: (el.getAttribute('title') || '').trim().toLowerCase(),
+                        cls: (typeof el.className === 'string' ? el.className : '').toLowerCase(),
+                        role: (el.getAttribute('role') || '').toLowerCase()
+                    };
+
+                    if (DENY.some(r => matchRule(r, el, info))) continue;
+
+                    let score = 0;
+                    let ruleId = null;
+                    let category = null;
+                    const denied = {};
+                    for (const r of ALLOW) {
+                        if (r.score <= score || !matchRule(r, el, info)) continue;
+                        if (!(r.category in denied)) denied[r.category] = CATEGORY_DENY.some(d => d.category === r.category && matchRule(d, el, info));
+                        if (denied[r.category]) continue;
+                        score = r.score;
+                        ruleId = r.id;
+                        category = r.category;
+                    }
+
+                    // Optimization: If score is low, skip expensive style checks
+                    if (score < MIN_SCORE) continue;
+
+                    // --- STYLE CHECK (Safe) ---
+                    try {
+                        const win = el.ownerDocument.defaultView || window;
+                        const style = win.getComputedStyle(el);
+
+                        if (style.visibility === 'hidden' || style.display === 'none' || style.opacity === '0') continue;
+
+                        let isInteractive = style.cursor === 'pointer';
+
+                        // Check parent for cursor:pointer if element itself isn't
+                        if (!isInteractive && el.parentElement) {
+                             const pStyle = win.getComputedStyle(el.parentElement);
+                             if (pStyle.cursor === 'pointer') isInteractive = true;
+                        }
+                        if (el.tagName === 'BUTTON' || info.role === 'button') isInteractive = true;
+
+                        // Explicitly allow high-confidence matches even if cursor is weird, as long as it's not hidden
+                        if (!isInteractive && score >= TRUSTED_SCORE) {
+                             isInteractive = true;
+                        }
+
+                        if (!isInteractive) continue;
+
+                    } catch(e) {
+                        // If cross-origin style check fails, assume not interactive.
+                        continue;
+                    }
+
+                    const entry = { candidate: el, score: score, ruleId: ruleId, category: category };
+                    qualified.push(entry);
+                    if (!best || score > best.score) best = entry;
+                }
+
+                return best;
+            }
+
+            function scanAndStore() {
+                qualified = [];
+                const result = scan(document);
+                const state = window.__kayorama || (window.__kayorama = {});
+                state.candidate = result ? result.candidate : null;
+                if (result && result.candidate) {
+                    const proposed = extractCommand(result.candidate);
+                    return {
+                        tagName: result.candidate.tagName,
+                        text: (result.candidate.textContent || '').substring(0, 30),
+                        label: result.candidate.getAttribute('aria-label'),
+                        title: result.candidate.getAttribute('title'),
+                        score: result.score,
+                        ruleId: result.ruleId,
+                        category: result.category,
+                        command: proposed.command,
+                        commandAmbiguous: proposed.ambiguous,
+                        files: extractFiles(result.candidate),
+                        rect: pageRect(result.candidate),
+                        runnerUps: qualified
+                            .filter(q => q !== result)
+                            .sort((a, b) => b.score - a.score)
+                            .slice(0, ${RUNNER_UP_COUNT})
+                            .map(q => ({ tagName: q.candidate.tagName, text: (q.candidate.textContent || '').substring(0, 30), score: q.score, ruleId: q.ruleId }))
+                    };
+                }
+                return null;
+            }
+    `;
+}
+
+/**
+ * Poll mode: scans once and reports the winning candidate (see scanLibrary).
+ */
+export function buildClickScript(rules: CompiledRule[], options: ScanOptions): string {
+    return `
+        (function() {
+            ${scanLibrary(rules, options)}
+            return scanAndStore();
+        })()
+    `;
+}
+
+/** Name of the CDP binding the observer reports candidates through. */
+export const OBSERVER_BINDING = 'kayoramaReport';
+
+const isStringOrNull = (v: unknown) => v === null || typeof v === 'string';
+
+/**
+ * Checks the shape of a candidate an observer reported. Binding payloads come from the page,
+ * so they are not trusted to be what the script sends.
+ */
+export function isCandidateDetails(value: unknown): value is CandidateDetails {
+    if (typeof value !== 'object' || value === null) return false;
+    const v = value as Record<string, unknown>;
+    return typeof v.tagName === 'string' && typeof v.text === 'string' && typeof v.score === 'number'
+        && ACTION_CATEGORIES.includes(v.category as ActionCategory) && isStringOrNull(v.label) && isStringOrNull(v.title)
+        && isStringOrNull(v.ruleId) && isStringOrNull(v.command) && typeof v.commandAmbiguous === 'boolean'
+        && (v.rect === null || typeof v.rect === 'object')
+        && Array.isArray(v.runnerUps) && Array.isArray(v.files);
+}
+
+const OBSERVER_DEBOUNCE_MS = 150;
+
+/**
+ * Observer mode: installs a persistent MutationObserver that re-scans only when the DOM changes
+ * and reports candidates through the `OBSERVER_BINDING` CDP binding (Runtime.addBinding).
+ * `key` identifies the rule set; an observer with a different key is replaced.
+ * Returns 'installed', 'current' (already up to date) or 'no-binding'.
+ */
+export function buildObserverScript(rules: CompiledRule[], options: ScanOptions, key: string): string {
+    return `
+        (function() {
+            const KEY = ${JSON.stringify(key)};
+            const existing = window.__kayoramaObserver;
+            if (existing && existing.key === KEY) return 'current';
+            if (existing) existing.disconnect();
+            if (typeof window.${OBSERVER_BINDING} !== 'function') return 'no-binding';
+
+            ${scanLibrary(rules, options)}
+
+            const observers = [];
+            const observed = new WeakSet();
+            const stats = { scans: 0, totalMs: 0, reports: 0, since: Date.now() };
+            let timer = null;
+
+            function run() {
+                timer = null;
+                const t0 = performance.now();
+                let details = null;
+                try { details = scanAndStore(); } catch(e) {}
+                stats.scans++;
+                stats.totalMs += performance.now() - t0;
+                if (details) {
+                    stats.reports++;
+                    try { window.${OBSERVER_BINDING}(JSON.stringify(details)); } catch(e) {}
+                }
+            }
+
+            function schedule() {
+                if (!timer) timer = setTimeout(run, ${OBSERVER_DEBOUNCE_MS});
+            }
+
+            window.__kayoramaObserver = {
+                key: KEY,
+                stats: stats,
+                rescan: schedule,
+                observe(root) {
+                    if (observed.has(root)) return;
+                    observed.add(root);
+                    try {
+                        const mo = new MutationObserver(schedule);
+                        // 'style' is left out on purpose: our own outline flash must not trigger a rescan
+                        mo.observe(root, { childList: true, subtree: true, characterData: true, attributes: true,
+                            attributeFilter: ['class', 'hidden', 'disabled', 'aria-hidden', 'aria-label', 'title'] });
+                        observers.push(mo);
+                    } catch(e) {}
+                },
+                disconnect() {
+                    observers.forEach(mo => mo.disconnect());
+                    if (timer) clearTimeout(timer);
+                    window.__kayoramaObserver = null;
+                }
+            };
+            window.__kayoramaObserver.observe(document);
+            schedule();
+            return 'installed';
+        })()
+    `;
+}
+
+/**
+ * Returns the installed observer's key and cost statistics, or null.
+ */
+export const OBSERVER_STATUS_SCRIPT = `
+    (function() {
+        const o = window.__kayoramaObserver;
+        return o ? { key: o.key, stats: o.stats, now: Date.now() } : null;
+    })()
+`;
+
+/**
+ * Asks the observer to re-scan even though the DOM did not change (e.g. after the user approved a command).
+ */
+export const RESCAN_SCRIPT = `
+    (function() {
+        const o = window.__kayoramaObserver;
+        if (o) o.rescan();
+        return !!o;
+    })()
+`;
+
+/**
+ * Removes the observer (when switching back to poll mode).
+ */
+export const DISCONNECT_OBSERVER_SCRIPT = `
+    (function() {
+        const o = window.__kayoramaObserver;
+        if (o) o.disconnect();
+        return !!o;
+    })()
+`;
+
+/**
+ * Runs the poll-mode scan `runs` times and returns the average cost in milliseconds.
+ */
+export function buildBenchmarkScript(rules: CompiledRule[], options: ScanOptions, runs: number): string {
+    return `
+        (function() {
+            const t0 = performance.now();
+            for (let i = 0; i < ${runs}; i++) {
+                ${buildClickScript(rules, options)};
+            }
+            return (performance.now() - t0) / ${runs};
+        })()
+    `;
+}
+
+/**
+ * Second step (synthetic): clicks the candidate stored by the last scan, if it is still in the DOM.
+ */
+export const CLICK_CANDIDATE_SCRIPT = `
+    (function() {
+        function triggerClick(el) {
+            // v8.0.0: Use owner document and window for correct context
+            const doc = el.ownerDocument || document;
+            const win = doc.defaultView || window;
+
+            const opts = { bubbles: true, cancelable: true, view: win };
+            el.dispatchEvent(new MouseEvent('mousedown', opts));
+            el.dispatchEvent(new MouseEvent('mouseup', opts));
+            el.click();
+        }
+${FLASH_FN}
+        const state = window.__kayorama;
+        const el = state && state.candidate;
+        if (!el || !el.isConnected) return false;
+        state.candidate = null;
+
+        triggerClick(el);
+        flash(el, '#00FF00'); // Green flash
+
+        return true;
+    })()
+`;
+
+/**
+ * Second step (trusted), part 1: returns the centre of the stored candidate in page coordinates
+ * and whether the element under that point is the candidate. On a hit, arms a listener that
+ * records whether a trusted click actually reached it.
+ * Returns null if the candidate is gone.
+ */
+export const LOCATE_CANDIDATE_SCRIPT = `
+    (function() {
+${PAGE_RECT_FN}
+            function deepElementFromPoint(x, y) {
+                let doc = document, ox = 0, oy = 0, hit = null;
+                for (let depth = 0; depth < 20; depth++) {
+                    hit = doc.elementFromPoint(x - ox, y - oy);
+                    while (hit && hit.shadowRoot) {
+                        const inner = hit.shadowRoot.elementFromPoint(x - ox, y - oy);
+                        if (!inner || inner === hit) break;
+                        hit = inner;
+                    }
+                    if (!hit || hit.tagName !== 'IFRAME') break;
+                    try {
+                        if (!hit.contentDocument) break;
+                        const fr = hit.getBoundingClientRect();
+                        ox += fr.left + hit.clientLeft;
+                        oy += fr.top + hit.clientTop;
+                        doc = hit.contentDocument;
+                    } catch(e) { break; }
+                }
+                return hit;
+            }
+
+        const state = window.__kayorama;
+        const el = state && state.candidate;
+        if (!el || !el.isConnected) return null;
+
+        const rect = pageRect(el);
+        if (!rect || rect.width === 0 || rect.height === 0) return { x: 0, y: 0, hit: false };
+        const x = rect.x + rect.width / 2;
+        const y = rect.y + rect.height / 2;
+        const under = deepElementFromPoint(x, y);
+        const hit = !!under && (under === el || el.contains(under));
+
+        state.trustedClicked = false;
+        if (hit) {
+            el.addEventListener('click', (e) => { if (e.isTrusted) state.trustedClicked = true; }, { capture: true, once: true });
+        }
+        return { x: x, y: y, hit: hit };
+    })()
+`;
+
+/**
+ * Second step (trusted), part 2: reports whether the dispatched input reached the candidate.
+ */
+export const TRUSTED_CLICK_RESULT_SCRIPT = `
+    (function() {
+${FLASH_FN}
+        const state = window.__kayorama;
+        if (!state || !state.trustedClicked) return false;
+        if (state.candidate) flash(state.candidate, '#00FF00');
+        state.candidate = null;
+        state.trustedClicked = false;
+        return true;
+    })()
+`;
+
+const SHADOW_OUTLINE = '2px dashed #FFA500';
+const CONFIRM_OUTLINE = '2px solid #3794FF';
+
+/**
+ * Outlines the stored candidate and removes the outline from the element previously marked
+ * in the same slot. Returns true if a new element was marked.
+ */
+function buildMarkScript(slot: string, outline: string): string {
+    return `
+    (function() {
+        const state = window.__kayorama;
+        if (!state) return false;
+        const el = state.candidate;
+        const marked = state.${slot}Marked;
+        if (marked && marked !== el) {
+            try { marked.style.outline = state.${slot}PrevOutline; } catch(e) {}
+            state.${slot}Marked = null;
+        }
+        if (!el || !el.isConnected || state.${slot}Marked === el) return false;
+        state.${slot}PrevOutline = el.style.outline;
+        el.style.outline = '${outline}';
+        state.${slot}Marked = el;
+        return true;
+    })()
+`;
+}
+
+function buildClearMarkScript(slot: string): string {
+    return `
+    (function() {
+        const state = window.__kayorama;
+        if (!state || !state.${slot}Marked) return false;
+        try { state.${slot}Marked.style.outline = state.${slot}PrevOutline; } catch(e) {}
+        state.${slot}Marked = null;
+        return true;
+    })()
+`;
+}
+
+/**
+ * Shadow mode: outlines the stored candidate instead of clicking it.
+ */
+export const SHADOW_MARK_SCRIPT = buildMarkScript('shadow', SHADOW_OUTLINE);
+
+/**
+ * Removes the shadow mode outline (when shadow mode is switched off).
+ */
+export const CLEAR_SHADOW_MARK_SCRIPT = buildClearMarkScript('shadow');
+
+/**
+ * Confirm mode: outlines the candidate while its countdown runs.
+ */
+export const CONFIRM_MARK_SCRIPT = buildMarkScript('confirm', CONFIRM_OUTLINE);
+
+export const CLEAR_CONFIRM_MARK_SCRIPT = buildClearMarkScript('confirm');
+
+/**
+ * Remembers that the user cancelled the stored candidate, so it is not offered again while it
+ * stays in the page.
+ */
+export const DECLINE_CANDIDATE_SCRIPT = `
+    (function() {
+        const state = window.__kayorama;
+        if (!state || !state.candidate) return false;
+        (state.declined || (state.declined = new WeakSet())).add(state.candidate);
+        return true;
+    })()
+`;
+
+export const CANDIDATE_DECLINED_SCRIPT = `
+    (function() {
+        const state = window.__kayorama;
+        return !!(state && state.candidate && state.declined && state.declined.has(state.candidate));
+    })()
+`;
+
+/**
+ * Whether the stored candidate is still the element outlined for confirmation. A rescan during
+ * the countdown may have stored a different one, which the user did not get to cancel.
+ */
+export const CONFIRMED_CANDIDATE_SCRIPT = `
+    (function() {
+        const state = window.__kayorama;
+        return !!(state && state.candidate && state.candidate === state.confirmMarked && state.candidate.isConnected);
+    })()
+`;
+
+/**
+ * Whether this workbench page shows `marker` (rendered by this window's status bar item),
+ * and the ids of the webviews embedded in it (the `id` parameter of their iframe URLs).
+ */
+export function buildWindowOwnershipScript(marker: string): string {
+    return `
+    (function() {
+        const own = !!document.querySelector(${JSON.stringify(`[aria-label*="${marker}"]`)});
+        const webviewIds = [];
+        if (own) {
+            document.querySelectorAll('iframe').forEach(f => {
+                const match = /[?&]id=([^&#]+)/.exec(f.src || '');
+                if (match) webviewIds.push(decodeURIComponent(match[1]));
+            });
+        }
+        return { own: own, webviewIds: webviewIds };
+    })()
+`;
+}
+
+/** Name of the CDP binding the teach overlay reports the clicked element through. */
+export const TEACH_BINDING = 'kayoramaTeach';
+
+/**
+ * Teach mode: intercepts the user's next real click (in this document and its same-origin
+ * iframes) without letting it through, and reports a descriptor of the clicked button through
+ * `TEACH_BINDING`. Escape reports `{ cancelled: true }`. Workbench pages also show a banner.
+ * See TeachDescriptor in teach.ts for the payload.
+ */
+export function buildTeachScript(prompt: string): string {
+    return `
+    (function() {
+        if (typeof window.${TEACH_BINDING} !== 'function') return 'no-binding';
+        if (window.__kayoramaTeach) window.__kayoramaTeach.stop();
+
+        const docs = [];
+        let hovered = null, hoveredOutline = '';
+        let banner = null;
+
+        function collectDocs(doc, depth) {
+            if (depth > 10) return;
+            docs.push(doc);
+            doc.querySelectorAll('iframe').forEach(f => {
+                try { if (f.contentDocument) collectDocs(f.contentDocument, depth + 1); } catch(e) {}
+            });
+        }
+
+        // The clicked element itself may be an icon inside the button
+        function buttonOf(el) {
+            for (let node = el, i = 0; node && node.nodeType === 1 && i < 5; i++) {
+                const role = (node.getAttribute('role') || '').toLowerCase();
+                if (node.tagName === 'BUTTON' || node.tagName === 'A' || role === 'button' || role === 'menuitem') return node;
+                node = node.parentElement || (node.parentNode && node.parentNode.host) || null;
+            }
+            return el;
+        }
+
+        function describe(el) {
+            const ancestors = [];
+            let node = el.parentElement || (el.parentNode && el.parentNode.host) || null;
+            for (let i = 0; i < 8 && node && node.nodeType === 1; i++) {
+                ancestors.push({ tagName: node.tagName, classes: Array.from(node.classList || []) });
+                node = node.parentElement || (node.parentNode && node.parentNode.host) || null;
+            }
+            return {
+                tagName: el.tagName,
+                text: (el.textContent || '').trim().toLowerCase().substring(0, 100),
+                ariaLabel: (el.getAttribute('aria-label') || '').trim().toLowerCase(),
+                title: (el.getAttribute('title') || '').trim().toLowerCase(),
+                role: (el.getAttribute('role') || '').toLowerCase(),
+                classes: Array.from(el.classList || []),
+                ancestors: ancestors
+            };
+        }
+
+        function report(payload) {
+            stop();
+            try { window.${TEACH_BINDING}(JSON.stringify(payload)); } catch(e) {}
+        }
+
+        function onClick(e) {
+            if (!e.isTrusted) return;
+            e.preventDefault();
+            e.stopImmediatePropagation();
+            const target = (e.composedPath && e.composedPath()[0]) || e.target;
+            if (target && target.nodeType === 1) report(describe(buttonOf(target)));
+        }
+
+        function onKey(e) {
+            if (e.key === 'Escape') report({ cancelled: true });
+        }
+
+        function onOver(e) {
+            const target = (e.composedPath && e.composedPath()[0]) || e.target;
+            if (!target || target.nodeType !== 1) return;
+            const el = buttonOf(target);
+            if (el === hovered) return;
+            if (hovered) hovered.style.outline = hoveredOutline;
+            hovered = el;
+            hoveredOutline = el.style.outline;
+            el.style.outline = '2px solid #3794FF';
+        }
+
+        function stop() {
+            docs.forEach(doc => {
+                doc.removeEventListener('click', onClick, true);
+                doc.removeEventListener('mousedown', swallow, true);
+                doc.removeEventListener('mouseup', swallow, true);
+                doc.removeEventListener('keydown', onKey, true);
+                doc.removeEventListener('mouseover', onOver, true);
+            });
+            if (hovered) hovered.style.outline = hoveredOutline;
+            if (banner) banner.remove();
+            window.__kayoramaTeach = null;
+        }
+
+        // Buttons that act on mousedown must not fire either
+        function swallow(e) {
+            if (!e.isTrusted) return;
+            e.preventDefault();
+            e.stopImmediatePropagation();
+        }
+
+        collectDocs(document, 0);
+        docs.forEach(doc => {
+            doc.addEventListener('click', onClick, true);
+            doc.addEventListener('mousedown', swallow, true);
+            doc.addEventListener('mouseup', swallow, true);
+            doc.addEventListener('keydown', onKey, true);
+            doc.addEventListener('mouseover', onOver, true);
+        });
+
+        if (window === window.top && document.body) {
+            banner = document.createElement('div');
+            banner.textContent = ${JSON.stringify(prompt)};
+            banner.style.cssText = 'position:fixed;top:0;left:0;right:0;z-index:2147483647;padding:6px 12px;' +
+                'background:#3794FF;color:#fff;font:13px sans-serif;text-align:center;pointer-events:none;';
+            document.body.appendChild(banner);
+        }
+
+        window.__kayoramaTeach = { stop: stop };
+        return 'installed';
+    })()
+`;
+}
+
+/**
+ * Removes the teach overlay (after another target reported, or when teaching is cancelled).
+ */
+export const STOP_TEACH_SCRIPT = `
+    (function() {
+        const t = window.__kayoramaTeach;
+        if (t) t.stop();
+        return !!t;
+    })()
+`;
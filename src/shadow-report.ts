@@ -0,0 +1,75 @@
+import { NATIVE_SESSION } from './native-dispatcher';
+import { CandidateDetails } from './scan-script';
+
+/**
+ * Shadow mode bookkeeping: what autopilot would have clicked or run, grouped for the summary report.
+ */
+
+export type ShadowAction =
+    | { kind: 'click'; session: string; element: CandidateDetails; policy: string | null }
+    | { kind: 'native'; command: string };
+
+interface ShadowGroup {
+    count: number;
+    first: number;
+    last: number;
+    /** Last seen example (element text or command) */
+    sample: string;
+    bestScore: number | null;
+}
+
+export class ShadowReport {
+    // Session -> rule (or native command) -> group
+    private groups: Map<string, Map<string, ShadowGroup>> = new Map();
+    private since = Date.now();
+
+    record(action: ShadowAction, now: number = Date.now()) {
+        const session = action.kind === 'click' ? action.session : NATIVE_SESSION;
+        const key = action.kind === 'click' ? (action.element.ruleId || '(no rule)') : action.command;
+        const sample = action.kind === 'click'
+            ? `\`<${action.element.tagName}>\` "${action.element.text.trim()}"${action.policy ? ` (policy: ${action.policy})` : ''}`
+            : action.command;
+        const score = action.kind === 'click' ? action.element.score : null;
+
+        let rules = this.groups.get(session);
+        if (!rules) this.groups.set(session, rules = new Map());
+        const group = rules.get(key);
+        if (group) {
+            group.count++;
+            group.last = now;
+            group.sample = sample;
+            if (score !== null) group.bestScore = Math.max(group.bestScore ?? 0, score);
+        } else {
+            rules.set(key, { count: 1, first: now, last: now, sample, bestScore: score });
+        }
+    }
+
+    get isEmpty(): boolean {
+        return this.groups.size === 0;
+    }
+
+    clear() {
+        this.groups.clear();
+        this.since = Date.now();
+    }
+
+    /**
+     * Markdown summary: one section per session, one table row per rule or command.
+     */
+    render(): string {
+        const time = (t: number) => new Date(t).toLocaleTimeString();
+        const lines = [`# Kayorama Shadow Mode Report`, '', `Would-be actions since ${new Date(this.since).toLocaleString()}.`, ''];
+        if (this.isEmpty) lines.push('Nothing would have been clicked or run yet.');
+
+        for (const [session, rules] of this.groups) {
+            lines.push(`## ${session}`, '', '| Rule / command | Times | Best score | First | Last | Last example |', '|---|---|---|---|---|---|');
+            const sorted = Array.from(rules).sort((a, b) => b[1].count - a[1].count);
+            for (const [key, g] of sorted) {
+                const sample = g.sample.replace(/\|/g, '\\|');
+                lines.push(`| \`${key}\` | ${g.count} | ${g.bestScore ?? '-'} | ${time(g.first)} | ${time(g.last)} | ${sample} |`);
+            }
+            lines.push('');
+        }
+        return lines.join('\n');
+    }
+}
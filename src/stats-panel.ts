@@ -0,0 +1,266 @@
+import * as vscode from 'vscode';
+import { StatsStore, summarize, toCsv } from './stats';
+
+/**
+ * The statistics webview. The page renders the summaries it is sent; range changes and
+ * exports are posted back to the extension.
+ */
+
+type StatsRange = '24h' | '7d' | '30d' | 'all';
+
+const RANGE_MS: Record<StatsRange, number | null> = { '24h': 86400000, '7d': 7 * 86400000, '30d': 30 * 86400000, all: null };
+const REFRESH_MS = 1000;
+
+export class StatsPanel implements vscode.Disposable {
+    private panel: vscode.WebviewPanel | null = null;
+    private range: StatsRange = '7d';
+    private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+    private unsubscribe: (() => void) | null = null;
+
+    constructor(private stats: StatsStore, private log: (msg: string) => void) { }
+
+    show() {
+        if (this.panel) {
+            this.panel.reveal();
+            return;
+        }
+        this.panel = vscode.window.createWebviewPanel('kayorama.stats', 'Kayorama Statistics', vscode.ViewColumn.Active, {
+            enableScripts: true,
+            retainContextWhenHidden: false
+        });
+        this.panel.webview.html = renderPage(this.panel.webview.cspSource);
+        this.panel.webview.onDidReceiveMessage(message => this.onMessage(message));
+        this.panel.onDidChangeViewState(() => { if (this.panel?.visible) this.post(); });
+        this.panel.onDidDispose(() => this.detach());
+        // Events arrive in bursts, so updates are batched
+        this.unsubscribe = this.stats.onChange(() => {
+            if (!this.refreshTimer) this.refreshTimer = setTimeout(() => { this.refreshTimer = null; this.post(); }, REFRESH_MS);
+        });
+    }
+
+    dispose() {
+        this.panel?.dispose();
+        this.detach();
+    }
+
+    private detach() {
+        if (this.refreshTimer) clearTimeout(this.refreshTimer);
+        this.refreshTimer = null;
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+        this.panel = null;
+    }
+
+    private post() {
+        if (!this.panel?.visible) return;
+        const span = RANGE_MS[this.range];
+        const summary = summarize(this.stats.all, span === null ? null : Date.now() - span);
+        this.panel.webview.postMessage({ type: 'summary', range: this.range, summary });
+    }
+
+    private async onMessage(message: any) {
+        if (message?.type === 'ready') {
+            this.post();
+        } else if (message?.type === 'range' && message.range in RANGE_MS) {
+            this.range = message.range;
+            this.post();
+        } else if (message?.type === 'export' && (message.format === 'csv' || message.format === 'json')) {
+            await this.export(message.format);
+        } else if (message?.type === 'clear') {
+            const choice = await vscode.window.showWarningMessage('Kayorama: Delete all recorded statistics?', { modal: true }, 'Delete');
+            if (choice !== 'Delete') return;
+            this.stats.clear();
+            this.log('[STATS] Statistics cleared');
+            this.post();
+        }
+    }
+
+    private async export(format: 'csv' | 'json') {
+        const span = RANGE_MS[this.range];
+        const since = span === null ? 0 : Date.now() - span;
+        const events = this.stats.all.filter(e => e.time >= since);
+        const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+        const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const name = `kayorama-stats-${this.range}-${stamp}.${format}`;
+        const uri = await vscode.window.showSaveDialog({
+            defaultUri: folder ? vscode.Uri.joinPath(folder, name) : undefined,
+            filters: format === 'csv' ? { 'CSV': ['csv'] } : { 'JSON': ['json'] },
+            saveLabel: 'Export Statistics'
+        });
+        if (!uri) return;
+        const content = format === 'csv' ? toCsv(events) : JSON.stringify(events, null, 2);
+        try {
+            await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(content));
+            this.log(`[STATS] Exported ${events.length} event(s) to ${uri.fsPath}`);
+            vscode.window.showInformationMessage(`Kayorama: Exported ${events.length} statistics event(s).`);
+        } catch (e: any) {
+            vscode.window.showErrorMessage(`Kayorama: Could not export statistics: ${e.message}`);
+        }
+    }
+}
+
+function nonce(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    let result = '';
+    for (let i = 0; i < 32; i++) result += chars.charAt(Math.floor(Math.random() * chars.length));
+    return result;
+}
+
+function renderPage(cspSource: string): string {
+    const n = nonce();
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'nonce-${n}'; script-src 'nonce-${n}';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Kayorama Statistics</title>
+<style nonce="${n}">
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px 16px; }
+    h2 { font-size: 1.1em; margin: 20px 0 8px; }
+    button { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); border: none; padding: 4px 10px; cursor: pointer; }
+    button.active, button:hover { background: var(--vscode-button-background); color: var(--vscode-button-foreground); }
+    .toolbar { display: flex; gap: 4px; margin: 12px 0; flex-wrap: wrap; }
+    .spacer { flex: 1; }
+    .totals { display: flex; gap: 24px; flex-wrap: wrap; }
+    .total b { display: block; font-size: 1.6em; }
+    .chart { display: flex; align-items: flex-end; gap: 1px; height: 140px; border-bottom: 1px solid var(--vscode-panel-border); }
+    .bar { flex: 1; display: flex; flex-direction: column-reverse; min-width: 2px; height: 100%; }
+    .cdp { background: var(--vscode-charts-blue); }
+    .native { background: var(--vscode-charts-green); }
+    .skipped { background: var(--vscode-charts-yellow); }
+    .blocked { background: var(--vscode-charts-red); }
+    .legend span { display: inline-block; width: 10px; height: 10px; margin: 0 4px 0 12px; }
+    .axis { display: flex; justify-content: space-between; opacity: 0.7; font-size: 0.9em; }
+    .grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(280px, 1fr)); gap: 0 24px; }
+    table { width: 100%; border-collapse: collapse; }
+    td { padding: 2px 4px; vertical-align: middle; }
+    td.key { max-width: 220px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+    td.count { text-align: right; width: 40px; }
+    td.meter { width: 35%; }
+    td.meter div { height: 8px; background: var(--vscode-charts-blue); }
+    .empty { opacity: 0.7; }
+</style>
+</head>
+<body>
+<div class="toolbar">
+    <button data-range="24h">24 hours</button>
+    <button data-range="7d">7 days</button>
+    <button data-range="30d">30 days</button>
+    <button data-range="all">All</button>
+    <span class="spacer"></span>
+    <button data-export="csv">Export CSV</button>
+    <button data-export="json">Export JSON</button>
+    <button id="clear">Clear</button>
+</div>
+<div class="totals" id="totals"></div>
+<h2>Activity</h2>
+<div class="chart" id="chart"></div>
+<div class="axis" id="axis"></div>
+<div class="legend"><span class="cdp"></span>CDP accepts<span class="native"></span>Native accepts<span class="skipped"></span>Skipped<span class="blocked"></span>Blocked</div>
+<div class="grid">
+    <div><h2>Accepts by session</h2><table id="bySession"></table></div>
+    <div><h2>Accepts by action</h2><table id="byCategory"></table></div>
+    <div><h2>Accepts by rule or command</h2><table id="byRule"></table></div>
+    <div><h2>Accepts by button text</h2><table id="byText"></table></div>
+    <div><h2>Accepts by score</h2><table id="byScore"></table></div>
+    <div><h2>Skipped and blocked</h2><table id="byReason"></table></div>
+    <div><h2>Connection events</h2><table id="connections"></table></div>
+</div>
+<script nonce="${n}">
+    const vscode = acquireVsCodeApi();
+    const el = id => document.getElementById(id);
+    const text = (tag, value, cls) => {
+        const node = document.createElement(tag);
+        node.textContent = value;
+        if (cls) node.className = cls;
+        return node;
+    };
+
+    document.querySelectorAll('[data-range]').forEach(b => b.addEventListener('click', () => vscode.postMessage({ type: 'range', range: b.dataset.range })));
+    document.querySelectorAll('[data-export]').forEach(b => b.addEventListener('click', () => vscode.postMessage({ type: 'export', format: b.dataset.export })));
+    el('clear').addEventListener('click', () => vscode.postMessage({ type: 'clear' }));
+
+    function renderRows(id, rows) {
+        const table = el(id);
+        table.replaceChildren();
+        if (rows.length === 0) {
+            table.appendChild(text('tr', 'Nothing recorded', 'empty'));
+            return;
+        }
+        const max = Math.max(...rows.map(r => r.count));
+        for (const row of rows) {
+            const tr = document.createElement('tr');
+            const key = text('td', row.key, 'key');
+            key.title = row.key;
+            const meter = document.createElement('td');
+            meter.className = 'meter';
+            const fill = document.createElement('div');
+            fill.style.width = (100 * row.count / max) + '%';
+            meter.appendChild(fill);
+            tr.append(key, meter, text('td', String(row.count), 'count'));
+            table.appendChild(tr);
+        }
+    }
+
+    function render(range, s) {
+        document.querySelectorAll('[data-range]').forEach(b => b.classList.toggle('active', b.dataset.range === range));
+
+        const totals = el('totals');
+        totals.replaceChildren();
+        const t = s.totals;
+        [['Accepts', t.accept], ['Skipped', t.skip], ['Blocked', t.block], ['Reconnects', t.reconnect], ['Drops', t.disconnect]].forEach(([label, value]) => {
+            const div = text('div', label, 'total');
+            div.prepend(text('b', String(value)));
+            totals.appendChild(div);
+        });
+
+        const chart = el('chart');
+        chart.replaceChildren();
+        const max = Math.max(1, ...s.timeline.map(b => b.cdp + b.native + b.skipped + b.blocked));
+        const hourly = s.bucketMs < 86400000;
+        const label = start => hourly ? new Date(start).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' }) : new Date(start).toLocaleDateString();
+        for (const bucket of s.timeline) {
+            const bar = document.createElement('div');
+            bar.className = 'bar';
+            bar.title = label(bucket.start) + ': ' + bucket.cdp + ' CDP, ' + bucket.native + ' native, ' + bucket.skipped + ' skipped, ' + bucket.blocked + ' blocked';
+            for (const kind of ['cdp', 'native', 'skipped', 'blocked']) {
+                if (!bucket[kind]) continue;
+                const part = document.createElement('div');
+                part.className = kind;
+                part.style.height = (100 * bucket[kind] / max) + '%';
+                bar.appendChild(part);
+            }
+            chart.appendChild(bar);
+        }
+        const axis = el('axis');
+        axis.replaceChildren();
+        if (s.timeline.length > 0) {
+            axis.append(text('span', label(s.timeline[0].start)), text('span', label(s.timeline[s.timeline.length - 1].start)));
+        }
+
+        renderRows('bySession', s.bySession);
+        renderRows('byCategory', s.byCategory);
+        renderRows('byRule', s.byRule);
+        renderRows('byText', s.byText);
+        renderRows('byScore', s.byScore);
+        renderRows('byReason', s.byReason);
+
+        const connections = el('connections');
+        connections.replaceChildren();
+        if (s.connections.length === 0) connections.appendChild(text('tr', 'Nothing recorded', 'empty'));
+        for (const e of s.connections) {
+            const tr = document.createElement('tr');
+            tr.append(text('td', new Date(e.time).toLocaleString()), text('td', e.kind), text('td', e.session || '', 'key'));
+            connections.appendChild(tr);
+        }
+    }
+
+    window.addEventListener('message', event => {
+        if (event.data.type === 'summary') render(event.data.range, event.data.summary);
+    });
+    vscode.postMessage({ type: 'ready' });
+</script>
+</body>
+</html>`;
+}
@@ -0,0 +1,234 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ActionCategory } from './rules';
+
+/**
+ * Persistent activity statistics: accepts, skipped and blocked candidates, and CDP
+ * connection events. Events are appended to a JSON Lines file and summarized for the
+ * statistics panel.
+ */
+
+export type StatsEventKind = 'accept' | 'skip' | 'block' | 'connect' | 'reconnect' | 'disconnect';
+
+export interface StatsEvent {
+    /** Epoch milliseconds */
+    time: number;
+    kind: StatsEventKind;
+    strategy: 'cdp' | 'native' | null;
+    /** CDP session title, or 'Native Mode' */
+    session: string | null;
+    /** Action category of a click; native accepts count as `accept` */
+    category: ActionCategory | null;
+    ruleId: string | null;
+    score: number | null;
+    /** Button text, for clicks */
+    text: string | null;
+    /** Command ID for native accepts, or the terminal command proposed next to a clicked button */
+    command: string | null;
+    /** Why a candidate was skipped or blocked */
+    reason: string | null;
+}
+
+export interface StatsOptions {
+    /** Events older than this are dropped when the file is loaded */
+    retentionDays: number;
+    maxEvents: number;
+}
+
+export const DEFAULT_STATS_OPTIONS: StatsOptions = { retentionDays: 90, maxEvents: 50000 };
+
+export interface CountRow {
+    key: string;
+    count: number;
+}
+
+export interface TimelineBucket {
+    /** Start of the bucket, epoch milliseconds */
+    start: number;
+    cdp: number;
+    native: number;
+    skipped: number;
+    blocked: number;
+}
+
+export interface StatsSummary {
+    since: number | null;
+    totals: Record<StatsEventKind, number>;
+    timeline: TimelineBucket[];
+    /** Bucket width of the timeline */
+    bucketMs: number;
+    bySession: CountRow[];
+    byCategory: CountRow[];
+    byRule: CountRow[];
+    byText: CountRow[];
+    byScore: CountRow[];
+    byReason: CountRow[];
+    connections: StatsEvent[];
+}
+
+const STATS_FILE = 'stats.jsonl';
+const HOUR_MS = 3600000;
+const DAY_MS = 24 * HOUR_MS;
+const TOP_ROWS = 15;
+
+export class StatsStore {
+    private events: StatsEvent[] = [];
+    private buffer: StatsEvent[] = [];
+    private saveTimer: ReturnType<typeof setTimeout> | null = null;
+    private listeners: Set<() => void> = new Set();
+
+    constructor(private dir: string, private options: StatsOptions, private logger: (msg: string) => void) { }
+
+    private log(msg: string) {
+        this.logger(`[STATS] ${msg}`);
+    }
+
+    /**
+     * Reads the events file, dropping expired and malformed lines. The file is rewritten if
+     * anything was dropped.
+     */
+    load() {
+        const file = path.join(this.dir, STATS_FILE);
+        let lines: string[] = [];
+        try {
+            lines = fs.readFileSync(file, 'utf8').split('\n').filter(l => l.trim());
+        } catch (e) { }
+        const cutoff = Date.now() - this.options.retentionDays * DAY_MS;
+        this.events = [];
+        for (const line of lines) {
+            try {
+                const event = JSON.parse(line);
+                if (typeof event.time === 'number' && event.time >= cutoff) this.events.push(event);
+            } catch (e) { }
+        }
+        this.events = this.events.slice(-this.options.maxEvents);
+        if (this.events.length !== lines.length) this.rewrite();
+    }
+
+    get all(): readonly StatsEvent[] {
+        return this.events;
+    }
+
+    record(event: Omit<StatsEvent, 'time'> & { time?: number }) {
+        const full: StatsEvent = { ...event, time: event.time ?? Date.now() };
+        this.events.push(full);
+        this.buffer.push(full);
+        if (this.events.length > this.options.maxEvents * 1.1) {
+            // Trimmed in memory now and on disk at the next load
+            this.events = this.events.slice(-this.options.maxEvents);
+        }
+        if (!this.saveTimer) this.saveTimer = setTimeout(() => this.flush(), 2000);
+        this.listeners.forEach(l => l());
+    }
+
+    /**
+     * Calls `listener` after every recorded event. Returns an unsubscribe function.
+     */
+    onChange(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    flush() {
+        if (this.saveTimer) clearTimeout(this.saveTimer);
+        this.saveTimer = null;
+        if (this.buffer.length === 0) return;
+        try {
+            fs.mkdirSync(this.dir, { recursive: true });
+            fs.appendFileSync(path.join(this.dir, STATS_FILE), this.buffer.map(e => JSON.stringify(e)).join('\n') + '\n');
+            this.buffer = [];
+        } catch (e: any) {
+            this.log(`Could not save statistics: ${e.message}`);
+        }
+    }
+
+    clear() {
+        this.events = [];
+        this.buffer = [];
+        this.rewrite();
+    }
+
+    private rewrite() {
+        try {
+            fs.mkdirSync(this.dir, { recursive: true });
+            fs.writeFileSync(path.join(this.dir, STATS_FILE), this.events.map(e => JSON.stringify(e)).join('\n') + (this.events.length ? '\n' : ''));
+        } catch (e: any) {
+            this.log(`Could not save statistics: ${e.message}`);
+        }
+    }
+}
+
+function countBy(events: StatsEvent[], key: (e: StatsEvent) => string | null): CountRow[] {
+    const counts = new Map<string, number>();
+    for (const e of events) {
+        const k = key(e);
+        if (k !== null) counts.set(k, (counts.get(k) || 0) + 1);
+    }
+    return Array.from(counts, ([k, count]) => ({ key: k, count }))
+        .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key))
+        .slice(0, TOP_ROWS);
+}
+
+function scoreBand(score: number | null): string | null {
+    if (score === null) return null;
+    if (score >= 100) return '100';
+    const low = Math.floor(score / 10) * 10;
+    return `${low}-${low + 9}`;
+}
+
+/**
+ * Summarizes the events at or after `since` (all events if null). The timeline uses hourly
+ * buckets for up to two days and daily buckets beyond.
+ */
+export function summarize(events: readonly StatsEvent[], since: number | null, now = Date.now()): StatsSummary {
+    const selected = since === null ? events.slice() : events.filter(e => e.time >= since);
+    const totals: Record<StatsEventKind, number> = { accept: 0, skip: 0, block: 0, connect: 0, reconnect: 0, disconnect: 0 };
+    selected.forEach(e => totals[e.kind]++);
+
+    const start = since ?? (selected.length ? selected[0].time : now);
+    const bucketMs = now - start <= 2 * DAY_MS ? HOUR_MS : DAY_MS;
+    const timeline = new Map<number, TimelineBucket>();
+    for (let t = Math.floor(start / bucketMs) * bucketMs; t <= now; t += bucketMs) {
+        timeline.set(t, { start: t, cdp: 0, native: 0, skipped: 0, blocked: 0 });
+    }
+    for (const e of selected) {
+        const bucket = timeline.get(Math.floor(e.time / bucketMs) * bucketMs);
+        if (!bucket) continue;
+        if (e.kind === 'accept' && e.strategy === 'cdp') bucket.cdp++;
+        else if (e.kind === 'accept' && e.strategy === 'native') bucket.native++;
+        else if (e.kind === 'skip') bucket.skipped++;
+        else if (e.kind === 'block') bucket.blocked++;
+    }
+
+    const accepts = selected.filter(e => e.kind === 'accept');
+    return {
+        since,
+        totals,
+        timeline: Array.from(timeline.values()),
+        bucketMs,
+        bySession: countBy(accepts, e => e.session),
+        // Events recorded before categories existed have none
+        byCategory: countBy(accepts, e => e.category ?? 'accept'),
+        byRule: countBy(accepts, e => e.strategy === 'native' ? e.command : e.ruleId || '(no rule)'),
+        byText: countBy(accepts, e => e.text ? e.text.trim().toLowerCase() : null),
+        byScore: countBy(accepts, e => scoreBand(e.score)),
+        byReason: countBy(selected.filter(e => e.kind === 'skip' || e.kind === 'block'), e => `${e.kind}: ${e.reason || 'unknown'}`),
+        connections: selected.filter(e => e.kind === 'connect' || e.kind === 'reconnect' || e.kind === 'disconnect').slice(-50).reverse()
+    };
+}
+
+const CSV_COLUMNS: (keyof StatsEvent)[] = ['time', 'kind', 'strategy', 'session', 'category', 'ruleId', 'score', 'text', 'command', 'reason'];
+
+function csvField(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    const s = String(value);
+    return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/**
+ * One row per event, times as ISO strings.
+ */
+export function toCsv(events: readonly StatsEvent[]): string {
+    const rows = events.map(e => CSV_COLUMNS.map(c => csvField(c === 'time' ? new Date(e.time).toISOString() : e[c])).join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
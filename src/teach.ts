@@ -0,0 +1,120 @@
+import { ClickRule, RuleEffect, TRUSTED_SCORE } from './rules';
+
+/**
+ * Teach mode: turns the descriptor of a button the user clicked into click rule proposals.
+ */
+
+export interface TeachAncestor {
+    tagName: string;
+    classes: string[];
+}
+
+/**
+ * What the teach overlay reports about the clicked button (see buildTeachScript).
+ * Text fields are trimmed and lower-cased like the scanner's.
+ */
+export interface TeachDescriptor {
+    tagName: string;
+    text: string;
+    ariaLabel: string;
+    title: string;
+    role: string;
+    classes: string[];
+    /** Nearest first */
+    ancestors: TeachAncestor[];
+}
+
+const isStringArray = (v: unknown) => Array.isArray(v) && v.every(c => typeof c === 'string');
+
+/**
+ * Checks the shape of a descriptor the teach overlay reported. Binding payloads come from
+ * the page, so they are not trusted to be what the script sends.
+ */
+export function isTeachDescriptor(value: unknown): value is TeachDescriptor {
+    if (typeof value !== 'object' || value === null) return false;
+    const v = value as Record<string, unknown>;
+    return typeof v.tagName === 'string' && typeof v.text === 'string' && typeof v.ariaLabel === 'string'
+        && typeof v.title === 'string' && typeof v.role === 'string' && isStringArray(v.classes)
+        && Array.isArray(v.ancestors) && v.ancestors.every(a =>
+            typeof a === 'object' && a !== null && typeof a.tagName === 'string' && isStringArray(a.classes));
+}
+
+export interface RuleProposal {
+    label: string;
+    description: string;
+    rule: ClickRule;
+}
+
+// Classes that describe a transient state rather than what the element is
+const STATE_CLASS = /^(is-|has-)?(active|focus(ed)?|hover(ed)?|selected|checked|disabled|expanded|collapsed|visible|hidden|open|closed|loading|ready|show|dirty)$/i;
+// Generated names such as css-1x2y3z or sc-bdVaJa carry no meaning across builds
+const GENERATED_CLASS = /(^(css|sc|jsx|svelte|emotion)-)|\d{3,}|[A-Z].*\d|^[a-z]{1,2}\d/;
+
+/**
+ * Class names worth anchoring a selector on.
+ */
+export function stableClasses(classes: string[]): string[] {
+    return classes.filter(c => /^[a-zA-Z][\w-]{2,}$/.test(c) && !STATE_CLASS.test(c) && !GENERATED_CLASS.test(c));
+}
+
+/**
+ * Selector for the nearest ancestor with a stable class, e.g. `.chat-editing-session`, or null.
+ */
+export function stableAncestor(ancestors: TeachAncestor[]): string | null {
+    for (const ancestor of ancestors) {
+        const classes = stableClasses(ancestor.classes);
+        if (classes.length > 0) return '.' + classes.slice(0, 2).join('.');
+    }
+    return null;
+}
+
+/**
+ * Regex limiting a rule to the target the button was taught in: a webview's extension id if
+ * the URL names one, otherwise the URL without its query.
+ */
+export function targetUrlPattern(url: string): string {
+    const extension = /[?&]extensionId=([^&#]+)/.exec(url);
+    if (extension) return `extensionId=${escapeRegExp(decodeURIComponent(extension[1]))}`;
+    return '^' + escapeRegExp(url.split(/[?#]/)[0]);
+}
+
+function escapeRegExp(s: string): string {
+    return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function slug(s: string): string {
+    return s.replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').substring(0, 30) || 'button';
+}
+
+/**
+ * Rule proposals for the clicked button, most specific first. Returns [] if the button has no
+ * text, aria-label or title to match on.
+ */
+export function proposeRules(descriptor: TeachDescriptor, effect: RuleEffect, url: string): RuleProposal[] {
+    const { text, ariaLabel, title, role } = descriptor;
+    const identity: Partial<ClickRule> | null =
+        text ? { text } : ariaLabel ? { ariaLabel } : title ? { title } : null;
+    if (!identity) return [];
+
+    const base: ClickRule = {
+        id: `taught.${effect}.${slug(text || ariaLabel || title)}`,
+        ...(effect === 'deny' ? { effect } : { score: TRUSTED_SCORE }),
+        ...identity
+    };
+    const ancestor = stableAncestor(descriptor.ancestors);
+    const targetUrl = targetUrlPattern(url);
+
+    const proposals: RuleProposal[] = [];
+    const add = (label: string, description: string, rule: ClickRule) => {
+        if (!proposals.some(p => JSON.stringify(p.rule) === JSON.stringify(rule))) proposals.push({ label, description, rule });
+    };
+    if (ancestor) add('Button in its container, this target only', `inside ${ancestor}`, { ...base, ...(role ? { role } : {}), ancestor, targetUrl });
+    if (ancestor) add('Button in its container', `inside ${ancestor}`, { ...base, ...(role ? { role } : {}), ancestor });
+    add('Button, this target only', targetUrl, { ...base, targetUrl });
+    add('Button anywhere', `matches on ${text ? 'text' : ariaLabel ? 'aria-label' : 'title'} only`, base);
+    if (text && ariaLabel) {
+        const { text: _, ...byLabel } = base;
+        add('Button by aria-label', `"${ariaLabel}"`, { ...byLabel, ariaLabel, ...(ancestor ? { ancestor } : {}) });
+    }
+    return proposals;
+}
@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { AcceptLimiter, DEFAULT_LIMITS, elementSignature } from '../accept-limiter';
+
+const T0 = 1700000000000;
+
+describe('AcceptLimiter', () => {
+    it('trips once a source exceeds its accepts per minute', () => {
+        const limiter = new AcceptLimiter({ ...DEFAULT_LIMITS, maxPerMinute: 3, maxPerElement: 0 });
+        for (let i = 0; i < 3; i++) {
+            assert.strictEqual(limiter.check('Chat', `button ${i}`, T0 + i * 1000), null);
+            limiter.record('Chat', `button ${i}`, T0 + i * 1000);
+        }
+        // Other sources have a minute of their own
+        assert.strictEqual(limiter.check('Native Mode', 'x', T0 + 3000), null);
+        const violation = limiter.check('Chat', 'button 3', T0 + 3000);
+        assert.strictEqual(violation?.limit, 'perMinute');
+        assert.strictEqual(violation?.count, 3);
+        assert.strictEqual(limiter.tripped, violation);
+    });
+
+    it('only counts the last minute', () => {
+        const limiter = new AcceptLimiter({ ...DEFAULT_LIMITS, maxPerMinute: 2, maxPerElement: 0 });
+        limiter.record('Chat', 'a', T0);
+        limiter.record('Chat', 'b', T0 + 30000);
+        assert.strictEqual(limiter.check('Chat', 'c', T0 + 60000), null);
+        limiter.record('Chat', 'c', T0 + 60000);
+        assert.strictEqual(limiter.check('Chat', 'd', T0 + 61000)?.limit, 'perMinute');
+    });
+
+    it('caps accepts of the same element within the cooldown window', () => {
+        const limiter = new AcceptLimiter({ ...DEFAULT_LIMITS, maxPerMinute: 0, maxPerElement: 2, cooldownSeconds: 10 });
+        limiter.record('Chat', 'accept', T0);
+        limiter.record('Chat', 'accept', T0 + 1000);
+        assert.strictEqual(limiter.check('Chat', 'other', T0 + 2000), null);
+        assert.strictEqual(limiter.check('Chat', 'accept', T0 + 2000)?.limit, 'perElement');
+    });
+
+    it('starts a new element window after the cooldown', () => {
+        const limiter = new AcceptLimiter({ ...DEFAULT_LIMITS, maxPerMinute: 0, maxPerElement: 2, cooldownSeconds: 10 });
+        limiter.record('Chat', 'accept', T0);
+        limiter.record('Chat', 'accept', T0 + 1000);
+        assert.strictEqual(limiter.check('Chat', 'accept', T0 + 10000), null);
+        limiter.record('Chat', 'accept', T0 + 10000);
+        assert.strictEqual(limiter.check('Chat', 'accept', T0 + 11000), null);
+    });
+
+    it('stays tripped until reset', () => {
+        const limiter = new AcceptLimiter({ ...DEFAULT_LIMITS, maxPerMinute: 1, maxPerElement: 0 });
+        limiter.record('Chat', 'a', T0);
+        const violation = limiter.check('Chat', 'b', T0 + 1000);
+        assert.ok(violation);
+        // Even after the minute has passed and for other sources
+        assert.strictEqual(limiter.check('Native Mode', 'c', T0 + 5 * 60000), violation);
+
+        limiter.reset();
+        assert.strictEqual(limiter.tripped, null);
+        assert.strictEqual(limiter.check('Chat', 'b', T0 + 2000), null);
+    });
+
+    it('does nothing while disabled', () => {
+        const limiter = new AcceptLimiter({ ...DEFAULT_LIMITS, enabled: false, maxPerMinute: 1, maxPerElement: 1 });
+        limiter.record('Chat', 'a', T0);
+        limiter.record('Chat', 'a', T0 + 1);
+        assert.strictEqual(limiter.check('Chat', 'a', T0 + 2), null);
+        assert.strictEqual(limiter.tripped, null);
+    });
+
+    it('tells elements apart by rule, text and command', () => {
+        const info = { tagName: 'BUTTON', text: 'Run', label: null, title: null, ruleId: 'builtin.run', command: 'npm test' } as any;
+        assert.strictEqual(elementSignature(info), elementSignature({ ...info }));
+        assert.notStrictEqual(elementSignature(info), elementSignature({ ...info, command: 'npm run lint' }));
+        assert.notStrictEqual(elementSignature(info), elementSignature({ ...info, ruleId: 'taught.allow.run' }));
+    });
+});
@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import { CategoryLimiter, DEFAULT_CATEGORY_CONFIG, categoryRules, enabledRules, parseCategoryConfig } from '../action-categories';
+import { ActionCategory, loadRules } from '../rules';
+import { CandidateDetails, DEFAULT_COMMAND_SELECTORS, buildClickScript } from '../scan-script';
+import { createFixture } from './dom-fixture';
+
+const OPTIONS = { commandSelectors: DEFAULT_COMMAND_SELECTORS };
+
+function scanWith(raw: unknown, body: string, userRules: unknown[] = [], held: ActionCategory[] = []): CandidateDetails | null {
+    const errors: string[] = [];
+    const config = parseCategoryConfig(raw, errors);
+    assert.deepStrictEqual(errors, []);
+    const rules = enabledRules(loadRules(userRules, true).rules.concat(categoryRules(config, errors)), config, held);
+    return createFixture(body).evaluate(buildClickScript(rules, OPTIONS));
+}
+
+describe('action categories', () => {
+    it('reads the settings over the defaults and reports mistakes', () => {
+        const errors: string[] = [];
+        const config = parseCategoryConfig({
+            continue: { enabled: true, keywords: [' Proceed '] },
+            retry: { enabled: 'yes', maxPerHour: -1 },
+            keepgoing: {}
+        }, errors);
+        assert.deepStrictEqual(config.continue, { enabled: true, keywords: ['Proceed'], selectors: [], maxPerHour: 30 });
+        assert.deepStrictEqual(config.retry, DEFAULT_CATEGORY_CONFIG.retry);
+        assert.strictEqual(config.accept.enabled, true);
+        assert.deepStrictEqual(errors, [
+            'actions.keepgoing: unknown category (expected accept, continue, retry, allow, keepGoing)',
+            'actions.retry.enabled must be a boolean',
+            'actions.retry.maxPerHour must be a number of at least 0'
+        ]);
+    });
+
+    it('clicks nothing beyond accept by default', () => {
+        assert.strictEqual(scanWith(undefined, '<button>Continue</button><button>Retry</button><button>Allow</button>'), null);
+        assert.strictEqual(scanWith(undefined, '<button>Accept</button>')?.category, 'accept');
+    });
+
+    it('clicks the prompts of enabled categories, after any accept', () => {
+        const all = { continue: { enabled: true }, retry: { enabled: true }, allow: { enabled: true }, keepGoing: { enabled: true } };
+        assert.strictEqual(scanWith(all, '<button>Continue</button>')?.category, 'continue');
+        assert.strictEqual(scanWith(all, '<button>Try again</button>')?.category, 'retry');
+        assert.strictEqual(scanWith(all, '<button>Allow</button>')?.category, 'allow');
+        assert.strictEqual(scanWith(all, '<button>Keep going</button>')?.category, 'keepGoing');
+        assert.strictEqual(scanWith(all, '<button>Continue</button><button>Accept all</button>')?.category, 'accept');
+        assert.strictEqual(scanWith({ retry: { enabled: true } }, '<button>Continue</button>'), null);
+    });
+
+    it('scopes the accept blacklist to accept buttons', () => {
+        const result = scanWith({ keepGoing: { enabled: true } }, '<button>Run 5 more steps</button>');
+        assert.strictEqual(result?.ruleId, 'builtin.keep-going.text');
+        assert.strictEqual(scanWith({ keepGoing: { enabled: true } }, '<button>Accept and run</button>'), null);
+    });
+
+    it('never grants a standing permission', () => {
+        const allow = { allow: { enabled: true, keywords: ['always allow'] } };
+        assert.strictEqual(scanWith(allow, '<button>Always allow</button>'), null);
+        assert.strictEqual(scanWith(allow, '<button>Allow once</button>')?.category, 'allow');
+    });
+
+    it('adds keyword and selector rules, and drops user rules of disabled categories', () => {
+        const config = { continue: { enabled: true, keywords: ['Proceed'], selectors: ['.resume'] } };
+        assert.strictEqual(scanWith(config, '<button>Proceed</button>')?.ruleId, 'actions.continue.keywords');
+        assert.strictEqual(scanWith(config, '<button class="resume">Go on</button>')?.ruleId, 'actions.continue.selectors[0]');
+        const userRule = [{ id: 'agent.resume', category: 'retry', text: 'resume', score: 80 }];
+        assert.strictEqual(scanWith(config, '<button>Resume</button>', userRule), null);
+        assert.strictEqual(scanWith({ retry: { enabled: true } }, '<button>Resume</button>', userRule)?.ruleId, 'agent.resume');
+    });
+
+    it('limits clicks per category and hour', () => {
+        const errors: string[] = [];
+        const limiter = new CategoryLimiter(parseCategoryConfig({ retry: { maxPerHour: 2 } }, errors));
+        const start = 1000000;
+        limiter.record('retry', start);
+        limiter.record('retry', start + 1000);
+        assert.strictEqual(limiter.allows('retry', start + 2000), false);
+        assert.strictEqual(limiter.allows('continue', start + 2000), true);
+        assert.strictEqual(limiter.allows('accept', start + 2000), true);
+        assert.deepStrictEqual(limiter.held(start + 2000), ['retry']);
+        assert.strictEqual(limiter.nextRelease(start + 2000), start + 3600000);
+        assert.strictEqual(limiter.allows('retry', start + 3600000), true);
+        assert.strictEqual(limiter.nextRelease(start + 3600000), null);
+    });
+
+    it('leaves held categories out, so lower scored buttons still win', () => {
+        const config = { continue: { enabled: true }, retry: { enabled: true } };
+        const body = '<button>Continue</button><button>Try again</button>';
+        assert.strictEqual(scanWith(config, body)?.category, 'continue');
+        assert.strictEqual(scanWith(config, body, [], ['continue'])?.category, 'retry');
+        assert.strictEqual(scanWith(config, '<button>Continue</button>', [], ['continue']), null);
+    });
+});
@@ -0,0 +1,19 @@
+import * as assert from 'assert';
+import { parseEnableOptions } from '../api';
+
+describe('parseEnableOptions', () => {
+    it('accepts the documented options', () => {
+        const errors: string[] = [];
+        assert.deepStrictEqual(parseEnableOptions(undefined, errors), {});
+        assert.deepStrictEqual(parseEnableOptions({ acceptMode: 'confirm', shadow: false }, errors), { acceptMode: 'confirm', shadow: false });
+        assert.deepStrictEqual(errors, []);
+    });
+
+    it('leaves out invalid values and reports them', () => {
+        const errors: string[] = [];
+        assert.deepStrictEqual(parseEnableOptions({ acceptMode: 'off', shadow: 'yes' }, errors), {});
+        assert.strictEqual(errors.length, 2);
+        assert.deepStrictEqual(parseEnableOptions('confirm', errors), {});
+        assert.strictEqual(errors.length, 3);
+    });
+});
@@ -0,0 +1,238 @@
+import * as assert from 'assert';
+import { CDPClient, CDPSession } from '../cdp-client';
+import { localEndpoint } from '../endpoints';
+import { CDPCancelledError, CDPProtocolError, CDPSessionClosedError, CDPTimeoutError } from '../cdp-errors';
+import { FakeCDPServer, FakeProtocolError, NO_REPLY } from './fake-cdp-server';
+
+const WORKBENCH = { id: 'workbench', type: 'page', title: 'main.ts - Visual Studio Code', url: 'vscode-file://vscode-app/workbench.html' };
+const CHAT = { id: 'chat', type: 'webview', title: 'Chat', url: 'vscode-webview://abc/index.html?extensionId=github.copilot-chat' };
+
+function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+    const started = Date.now();
+    return new Promise((resolve, reject) => {
+        const check = () => {
+            if (condition()) return resolve();
+            if (Date.now() - started > timeoutMs) return reject(new Error('waitFor timed out'));
+            setTimeout(check, 10);
+        };
+        check();
+    });
+}
+
+describe('CDPClient', () => {
+    let server: FakeCDPServer;
+    let client: CDPClient;
+    const logs: string[] = [];
+
+    beforeEach(async () => {
+        server = new FakeCDPServer();
+        await server.start();
+        server.targets = [WORKBENCH, CHAT];
+        client = new CDPClient(msg => logs.push(msg), 200);
+    });
+
+    afterEach(async () => {
+        client.disconnectAll();
+        await server.stop();
+    });
+
+    describe('scanAndConnect', () => {
+        it('connects to workbench targets only', async () => {
+            server.targets = [
+                WORKBENCH,
+                CHAT,
+                { id: 'site', type: 'page', title: 'Docs', url: 'https://example.com' },
+                { id: 'devtools', type: 'other', title: 'DevTools', url: 'devtools://devtools/inspector.html' },
+                { id: 'worker', type: 'service_worker', title: 'sw', url: 'vscode-webview://abc/sw.js' },
+                { id: 'blank', type: 'page', title: 'about:blank', url: 'about:blank' },
+                { id: 'locked', type: 'webview', title: 'Locked', url: 'vscode-webview://locked', noSocket: true }
+            ];
+            const count = await client.scanAndConnect(server.port);
+            assert.strictEqual(count, 2);
+            assert.deepStrictEqual(client.getSessions().map(s => s.id).sort(), [`${server.port}:chat`, `${server.port}:workbench`]);
+        });
+
+        it('applies the target filter', async () => {
+            client.setTargetFilter((url) => url.includes('copilot'));
+            await client.scanAndConnect(server.port);
+            assert.deepStrictEqual(client.getSessions().map(s => s.title), ['Chat']);
+        });
+
+        it('passes the listed target to the filter', async () => {
+            server.targets = [WORKBENCH, { ...CHAT, parentId: 'workbench' }, { id: 'foreign', type: 'iframe', title: 'x', url: 'vscode-webview://x', parentId: 'other' }];
+            client.setTargetFilter((url, title, target) => target.type === 'page' || target.parentId === 'workbench');
+            await client.scanAndConnect(server.port);
+            assert.deepStrictEqual(client.getSessions().map(s => [s.targetId, s.type]).sort(), [['chat', 'webview'], ['workbench', 'page']]);
+        });
+
+        it('does not open a second socket for a connected target', async () => {
+            await client.scanAndConnect(server.port);
+            await client.scanAndConnect(server.port);
+            assert.strictEqual(server.connectionCount('workbench'), 1);
+        });
+
+        it('returns 0 when nothing listens on the port', async () => {
+            const port = server.port;
+            await server.stop();
+            assert.strictEqual(await client.scanAndConnect(port), 0);
+            server = new FakeCDPServer();
+            await server.start();
+        });
+
+        it('accepts web pages from allowed origins of an endpoint', async () => {
+            const site = { id: 'site', type: 'page', title: 'code-server', url: 'https://code.example.com/?folder=/src' };
+            server.targets = [site, { id: 'docs', type: 'page', title: 'Docs', url: 'https://docs.example.com' }];
+            const endpoint = { ...localEndpoint(server.port), id: 'remote', allowedOrigins: ['https://code.example.com'], configured: true };
+            await client.scanAndConnect(endpoint);
+            assert.deepStrictEqual(client.getSessions().map(s => [s.id, s.endpoint]), [['remote:site', 'remote']]);
+        });
+
+        it('connects a direct WebSocket URL and reads the page', async () => {
+            server.targets = [];
+            server.handler = (method) => method === 'Runtime.evaluate'
+                ? { result: { type: 'object', value: { url: 'https://code.example.com/', title: 'code-server' } } }
+                : {};
+            const wsUrl = `ws://127.0.0.1:${server.port}/devtools/page/ABC`;
+            const endpoint = { ...localEndpoint(server.port), id: 'tunnel', wsUrl, configured: true };
+            assert.strictEqual(await client.scanAndConnect(endpoint), 1);
+            assert.deepStrictEqual(client.getSessions().map(s => [s.id, s.url, s.title]), [['tunnel:direct', 'https://code.example.com/', 'code-server']]);
+            assert.strictEqual(server.connectionCount('ABC'), 1);
+        });
+    });
+
+    describe('commands', () => {
+        let workbench: string;
+
+        beforeEach(async () => {
+            await client.scanAndConnect(server.port);
+            workbench = `${server.port}:workbench`;
+        });
+
+        it('evaluates expressions', async () => {
+            server.handler = (method, params) => ({ result: { type: 'number', value: params.expression.length } });
+            const result = await client.evaluate(workbench, '1 + 1');
+            assert.strictEqual(result.result.value, 5);
+            assert.strictEqual(server.received[0].method, 'Runtime.evaluate');
+            assert.strictEqual(server.received[0].params.returnByValue, true);
+        });
+
+        it('evaluates in every session', async () => {
+            server.handler = (method, params, targetId) => ({ result: { type: 'string', value: targetId } });
+            const results = await client.evaluateEach(session => session.title === 'Chat' ? null : 'document.title');
+            assert.deepStrictEqual(results.map(r => r.result.result.value), ['workbench']);
+            const all = await client.evaluateAll('document.title');
+            assert.deepStrictEqual(all.map(r => r.result.value).sort(), ['chat', 'workbench']);
+        });
+
+        it('rejects protocol errors with CDPProtocolError', async () => {
+            server.handler = () => { throw new FakeProtocolError(-32601, "'Input.nope' wasn't found"); };
+            await assert.rejects(client.send(workbench, 'Input.nope'), (e: any) =>
+                e instanceof CDPProtocolError && e.code === -32601 && e.method === 'Input.nope');
+        });
+
+        it('times out unanswered commands', async () => {
+            server.handler = () => NO_REPLY;
+            await assert.rejects(client.send(workbench, 'Runtime.enable', {}, { timeoutMs: 50 }), (e: any) =>
+                e instanceof CDPTimeoutError && e.timeoutMs === 50);
+            // The default timeout applies too
+            await assert.rejects(client.evaluate(workbench, '1'), CDPTimeoutError);
+        });
+
+        it('cancels commands through an AbortSignal', async () => {
+            server.handler = () => NO_REPLY;
+            const controller = new AbortController();
+            const call = client.send(workbench, 'Runtime.enable', {}, { signal: controller.signal });
+            controller.abort();
+            await assert.rejects(call, CDPCancelledError);
+            await assert.rejects(client.send(workbench, 'Runtime.enable', {}, { signal: controller.signal }), CDPCancelledError);
+        });
+
+        it('rejects commands for unknown sessions', async () => {
+            await assert.rejects(client.send('nope', 'Runtime.enable'), CDPSessionClosedError);
+        });
+    });
+
+    describe('close handling', () => {
+        it('fails pending commands and drops the session when the target goes away', async () => {
+            await client.scanAndConnect(server.port);
+            server.handler = () => NO_REPLY;
+            const call = client.send(`${server.port}:chat`, 'Runtime.enable', {}, { timeoutMs: 1000 });
+            await waitFor(() => server.received.length === 1);
+            server.drop('chat');
+
+            await assert.rejects(call, CDPSessionClosedError);
+            await waitFor(() => client.sessionCount === 1);
+            assert.deepStrictEqual(client.getSessions().map(s => s.title), [WORKBENCH.title]);
+        });
+
+        it('reconnects on the next scan', async () => {
+            await client.scanAndConnect(server.port);
+            server.drop('chat');
+            await waitFor(() => client.sessionCount === 1);
+
+            assert.strictEqual(await client.scanAndConnect(server.port), 2);
+            assert.strictEqual(server.connectionCount('chat'), 1);
+        });
+
+        it('reports drops and reconnects', async () => {
+            const events: string[] = [];
+            client.onConnection(e => events.push(`${e.type}:${e.session.targetId}${e.reconnect ? ':again' : ''}`));
+            await client.scanAndConnect(server.port);
+            server.drop('chat');
+            await waitFor(() => client.sessionCount === 1);
+            await client.scanAndConnect(server.port);
+            // Closing on purpose is not reported
+            client.disconnectAll();
+            assert.deepStrictEqual(events.sort(), ['connected:chat', 'connected:chat:again', 'connected:workbench', 'disconnected:chat']);
+        });
+
+        it('disconnect closes one session', async () => {
+            await client.scanAndConnect(server.port);
+            client.disconnect(`${server.port}:chat`);
+            assert.deepStrictEqual(client.getSessions().map(s => s.targetId), ['workbench']);
+            await waitFor(() => server.connectionCount('chat') === 0);
+        });
+
+        it('disconnectAll closes every session', async () => {
+            await client.scanAndConnect(server.port);
+            client.disconnectAll();
+            assert.strictEqual(client.sessionCount, 0);
+            await waitFor(() => server.connectionCount('workbench') === 0 && server.connectionCount('chat') === 0);
+        });
+    });
+
+    describe('events', () => {
+        it('delivers events by name, domain wildcard and catch-all', async () => {
+            await client.scanAndConnect(server.port);
+            const seen: string[] = [];
+            let from: CDPSession | null = null;
+            client.on('Runtime.bindingCalled', (params, session) => {
+                seen.push(`exact:${params.name}`);
+                from = session;
+            });
+            client.on('Runtime.*', (params, session, method) => seen.push(`domain:${method}`));
+            const off = client.on('*', (params, session, method) => seen.push(`all:${method}`));
+
+            server.emit('chat', 'Runtime.bindingCalled', { name: 'kayoramaReport', payload: '{}', executionContextId: 1 });
+            await waitFor(() => seen.length === 3);
+            assert.deepStrictEqual(seen, ['exact:kayoramaReport', 'domain:Runtime.bindingCalled', 'all:Runtime.bindingCalled']);
+            assert.strictEqual(from!.title, 'Chat');
+
+            off();
+            server.emit('chat', 'DOM.documentUpdated');
+            server.emit('chat', 'Runtime.executionContextsCleared');
+            await waitFor(() => seen.length === 4);
+            assert.strictEqual(seen[3], 'domain:Runtime.executionContextsCleared');
+        });
+
+        it('keeps dispatching when a handler throws', async () => {
+            await client.scanAndConnect(server.port);
+            let calls = 0;
+            client.on('DOM.documentUpdated', () => { throw new Error('boom'); });
+            client.on('DOM.*', () => calls++);
+            server.emit('workbench', 'DOM.documentUpdated');
+            await waitFor(() => calls === 1);
+            assert.ok(logs.some(l => l.includes('boom')));
+        });
+    });
+});
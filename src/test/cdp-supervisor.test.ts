@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import { CDPClient } from '../cdp-client';
+import { ConnectionSupervisor, SupervisorOptions, backoffDelay } from '../cdp-supervisor';
+import { localEndpoint } from '../endpoints';
+import { FakeCDPServer } from './fake-cdp-server';
+
+const WORKBENCH = { id: 'workbench', type: 'page', title: 'main.ts - Visual Studio Code', url: 'vscode-file://vscode-app/workbench.html' };
+const CHAT = { id: 'chat', type: 'webview', title: 'Chat', url: 'vscode-webview://abc/index.html?extensionId=github.copilot-chat' };
+
+// Long enough that only target discovery can explain a quick attach
+const OPTIONS: SupervisorOptions = { intervalMs: 10000, minBackoffMs: 20, maxBackoffMs: 80, discoveryDelayMs: 10 };
+
+function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+    const started = Date.now();
+    return new Promise((resolve, reject) => {
+        const check = () => {
+            if (condition()) return resolve();
+            if (Date.now() - started > timeoutMs) return reject(new Error('waitFor timed out'));
+            setTimeout(check, 10);
+        };
+        check();
+    });
+}
+
+describe('backoffDelay', () => {
+    it('doubles per failure up to the maximum', () => {
+        const options = { intervalMs: 5000, minBackoffMs: 1000, maxBackoffMs: 60000, discoveryDelayMs: 0 };
+        assert.deepStrictEqual([0, 1, 2, 3, 6, 7, 20].map(n => backoffDelay(n, options)), [5000, 1000, 2000, 4000, 32000, 60000, 60000]);
+    });
+});
+
+describe('ConnectionSupervisor', () => {
+    let server: FakeCDPServer;
+    let client: CDPClient;
+    let supervisor: ConnectionSupervisor;
+
+    beforeEach(async () => {
+        server = new FakeCDPServer();
+        await server.start();
+        server.targets = [WORKBENCH];
+        client = new CDPClient(() => { }, 200);
+        supervisor = new ConnectionSupervisor(client, () => { }, OPTIONS);
+    });
+
+    afterEach(async () => {
+        supervisor.stop();
+        client.disconnectAll();
+        await server.stop();
+    });
+
+    it('attaches new targets as soon as the browser reports them', async () => {
+        const endpoint = localEndpoint(server.port);
+        supervisor.start(async () => (await client.scanAndConnect(endpoint)) > 0 ? endpoint : null);
+        await waitFor(() => supervisor.status.health === 'connected');
+        assert.strictEqual(supervisor.status.discovering, true);
+        assert.ok(server.received.some(r => r.targetId === 'browser' && r.method === 'Target.setDiscoverTargets'));
+
+        server.targets = [WORKBENCH, CHAT];
+        server.emit('browser', 'Target.targetCreated', { targetInfo: { ...CHAT, targetId: 'chat', url: 'about:blank', attached: false } });
+        server.emit('browser', 'Target.targetInfoChanged', { targetInfo: { ...CHAT, targetId: 'chat', attached: false } });
+        await waitFor(() => client.sessionCount === 2, 1000);
+    });
+
+    it('reports a degraded connection without target discovery', async () => {
+        server.browserTarget = false;
+        const endpoint = localEndpoint(server.port);
+        supervisor.start(async () => (await client.scanAndConnect(endpoint)) > 0 ? endpoint : null);
+        await waitFor(() => supervisor.status.health === 'degraded');
+        assert.strictEqual(client.sessionCount, 1);
+        assert.match(supervisor.status.lastError!.message, /Target discovery .* unavailable/);
+    });
+
+    it('backs off while the port is down and recovers', async () => {
+        const port = server.port;
+        await server.stop();
+        let endpoint = localEndpoint(port);
+        let attempts = 0;
+        supervisor.start(async () => {
+            attempts++;
+            return (await client.scanAndConnect(endpoint)) > 0 ? endpoint : null;
+        });
+        await waitFor(() => supervisor.status.failures >= 3);
+        assert.strictEqual(supervisor.status.health, 'unreachable');
+        assert.match(supervisor.status.lastError!.message, /Could not list targets/);
+        const due = supervisor.status.nextAttemptAt! - Date.now();
+        assert.ok(due > 40 && due <= 80, `next attempt in ${due}ms`);
+        assert.ok(attempts <= 4);
+
+        // The editor comes back (on another port, as the fake server cannot reuse one)
+        server = new FakeCDPServer();
+        await server.start();
+        server.targets = [WORKBENCH];
+        endpoint = localEndpoint(server.port);
+        await waitFor(() => supervisor.status.health === 'connected');
+        assert.strictEqual(supervisor.status.failures, 0);
+    });
+});
@@ -0,0 +1,68 @@
+import { JSDOM } from 'jsdom';
+
+/**
+ * jsdom pages for running the injected scan scripts offline.
+ * jsdom does no layout, so `offsetParent` (which the scanner uses as a visibility check) is
+ * emulated from `display: none` and the `hidden` attribute.
+ */
+
+function patchLayout(win: any) {
+    Object.defineProperty(win.HTMLElement.prototype, 'offsetParent', {
+        configurable: true,
+        get(this: HTMLElement) {
+            // As in browsers, <html> and <body> have no offsetParent
+            if (this === this.ownerDocument.documentElement || this === this.ownerDocument.body) return null;
+            let node: Element | null = this;
+            while (node) {
+                const view = node.ownerDocument.defaultView!;
+                if (node.hasAttribute('hidden') || view.getComputedStyle(node).display === 'none') return null;
+                node = node.parentElement || ((node.parentNode as ShadowRoot | null)?.host ?? null);
+            }
+            return this.parentElement || this.ownerDocument.body;
+        }
+    });
+}
+
+export interface Fixture {
+    dom: JSDOM;
+    window: any;
+    document: Document;
+    /** Evaluates a script and returns its value serialized, as Runtime.evaluate with returnByValue would */
+    evaluate(script: string): any;
+}
+
+/**
+ * Creates a page from an HTML body.
+ */
+export function createFixture(body: string): Fixture {
+    const dom = new JSDOM(`<!DOCTYPE html><html><body>${body}</body></html>`, { runScripts: 'outside-only', pretendToBeVisual: true });
+    patchLayout(dom.window);
+    return {
+        dom,
+        window: dom.window,
+        document: dom.window.document,
+        evaluate: (script: string) => {
+            const value = dom.window.eval(script);
+            return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+        }
+    };
+}
+
+/**
+ * Fills a same-origin iframe of the fixture with HTML and returns its document.
+ */
+export function fillFrame(frame: HTMLIFrameElement, body: string): Document {
+    const doc = frame.contentDocument!;
+    patchLayout(doc.defaultView);
+    doc.body.innerHTML = body;
+    return doc;
+}
+
+/**
+ * Attaches an open shadow root with the given HTML to `host`.
+ */
+export function attachShadow(host: Element, html: string): ShadowRoot {
+    const root = host.attachShadow({ mode: 'open' });
+    root.innerHTML = html;
+    return root;
+}
@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import { DEFAULT_EDIT_POLICY, EditPolicy, globToRegExp } from '../edit-policy';
+
+const file = (path: string, added: number | null = null, removed: number | null = null) => ({ path, added, removed });
+
+describe('globToRegExp', () => {
+    const cases: [string, string, boolean][] = [
+        ['.env*', '.env', true],
+        ['.env*', 'config/.env.local', true],
+        ['.env*', 'src/env.ts', false],
+        ['**/migrations/**', 'db/migrations/001_init.sql', true],
+        ['**/migrations/**', 'migrations/001_init.sql', true],
+        ['**/migrations/**', 'src/migrations.ts', false],
+        ['package-lock.json', '/home/me/project/package-lock.json', true],
+        ['package-lock.json', 'my-package-lock.json', false],
+        ['.github/workflows/**', '.github/workflows/ci.yml', true],
+        ['.github/workflows/**', 'C:/repo/.github/workflows/release.yaml', true],
+        ['src/*.ts', 'src/a.ts', true],
+        ['src/*.ts', 'src/lib/a.ts', false],
+        ['*.{pem,key}', 'certs/server.key', true],
+        ['?.txt', 'a.txt', true],
+        ['?.txt', 'ab.txt', false]
+    ];
+    for (const [glob, path, expected] of cases) {
+        it(`${glob} ${expected ? 'matches' : 'does not match'} ${path}`, () => {
+            assert.strictEqual(globToRegExp(glob).test(path), expected);
+        });
+    }
+});
+
+describe('EditPolicy', () => {
+    it('blocks edits to protected files', () => {
+        const policy = new EditPolicy(DEFAULT_EDIT_POLICY, []);
+        const decision = policy.evaluate([file('src/app.ts'), file('.env.production')]);
+        assert.strictEqual(decision.allowed, false);
+        assert.deepStrictEqual(decision.files, ['.env.production']);
+        assert.ok(decision.reason.includes('.env*'));
+    });
+
+    it('matches Windows paths', () => {
+        const policy = new EditPolicy(DEFAULT_EDIT_POLICY, []);
+        assert.strictEqual(policy.protectedBy('C:\\repo\\db\\migrations\\002.sql'), '**/migrations/**');
+    });
+
+    it('blocks oversized edits and ignores unknown stats', () => {
+        const policy = new EditPolicy({ protectedPaths: [], maxLinesChanged: 100 }, []);
+        assert.strictEqual(policy.evaluate([file('a.ts', 60, 10), file('b.ts', 20, 5)]).allowed, true);
+        assert.strictEqual(policy.evaluate([file('a.ts', 90, 10), file('b.ts', 1, 0)]).allowed, false);
+        assert.strictEqual(policy.evaluate([file('a.ts'), file('b.ts')]).allowed, true);
+    });
+
+    it('is disabled without globs or a line limit', () => {
+        assert.strictEqual(new EditPolicy({ protectedPaths: [], maxLinesChanged: 0 }, []).enabled, false);
+    });
+
+    it('reports invalid globs', () => {
+        const errors: string[] = [];
+        const policy = new EditPolicy({ protectedPaths: ['', 7 as any, '*.pem'], maxLinesChanged: 0 }, errors);
+        assert.strictEqual(errors.length, 2);
+        assert.strictEqual(policy.protectedBy('server.pem'), '*.pem');
+    });
+});
@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { DEFAULT_CONNECT_TIMEOUT_MS, DEFAULT_LIST_TIMEOUT_MS, LOCAL_HOST, originAllowed, parseEndpoints } from '../endpoints';
+
+describe('parseEndpoints', () => {
+    it('reads host and port endpoints with defaults', () => {
+        const errors: string[] = [];
+        const [endpoint] = parseEndpoints([{ port: 9222, allowedOrigins: ['https://code.example.com/'] }], errors);
+        assert.deepStrictEqual(errors, []);
+        assert.deepStrictEqual(endpoint, {
+            id: `${LOCAL_HOST}:9222`, host: LOCAL_HOST, port: 9222, wsUrl: null,
+            listTimeoutMs: DEFAULT_LIST_TIMEOUT_MS, connectTimeoutMs: DEFAULT_CONNECT_TIMEOUT_MS,
+            allowedOrigins: ['https://code.example.com/'], configured: true
+        });
+    });
+
+    it('takes host and port from a direct WebSocket URL', () => {
+        const errors: string[] = [];
+        const [endpoint] = parseEndpoints([{ name: 'tunnel', wsUrl: 'wss://dev.example.com/devtools/page/ABC', connectTimeoutMs: 10000 }], errors);
+        assert.deepStrictEqual(errors, []);
+        assert.deepStrictEqual([endpoint.id, endpoint.host, endpoint.port, endpoint.connectTimeoutMs], ['tunnel', 'dev.example.com', 443, 10000]);
+    });
+
+    it('reports and leaves out unusable entries', () => {
+        const errors: string[] = [];
+        const endpoints = parseEndpoints([
+            { name: 'a', port: 9222 },
+            { name: 'a', port: 9223 },
+            { wsUrl: 'http://localhost:9222' },
+            { port: 9224, listTimeoutMs: 0, allowedOrigins: ['code.example.com'] },
+            'localhost'
+        ], errors);
+        assert.deepStrictEqual(endpoints.map(e => e.id), ['a']);
+        assert.deepStrictEqual(errors, [
+            'endpoints[1]: name "a" is used by another endpoint',
+            'endpoints[2]: wsUrl must be a ws:// or wss:// URL',
+            'endpoints[3]: allowedOrigins: "code.example.com" is not an origin like https://code.example.com',
+            'endpoints[3]: listTimeoutMs must be a positive number',
+            'endpoints[4] must be an object'
+        ]);
+    });
+});
+
+describe('originAllowed', () => {
+    it('matches origins, with * inside the host', () => {
+        const patterns = ['https://code.example.com', 'https://*.vscode-cdn.net', 'http://localhost:8080'];
+        assert.strictEqual(originAllowed('https://code.example.com/?folder=/src', patterns), true);
+        assert.strictEqual(originAllowed('https://main.vscode-cdn.net/stable/out/index.html', patterns), true);
+        assert.strictEqual(originAllowed('http://localhost:8080/', patterns), true);
+        assert.strictEqual(originAllowed('http://localhost:8081/', patterns), false);
+        assert.strictEqual(originAllowed('http://code.example.com', patterns), false);
+        assert.strictEqual(originAllowed('https://code.example.com.evil.net', patterns), false);
+        assert.strictEqual(originAllowed('not a url', patterns), false);
+    });
+});
@@ -0,0 +1,141 @@
+import * as http from 'http';
+import * as WebSocket from 'ws';
+
+/**
+ * A local stand-in for a `--remote-debugging-port` endpoint: serves `/json/list` and answers
+ * CDP commands over WebSocket, so CDPClient can be tested without a running editor.
+ */
+
+export interface FakeTarget {
+    id: string;
+    type: string;
+    title: string;
+    url: string;
+    parentId?: string;
+    /** Leaves out webSocketDebuggerUrl, like targets that cannot be debugged */
+    noSocket?: boolean;
+}
+
+/** Returned by a handler to leave the command unanswered (for timeout tests). */
+export const NO_REPLY = Symbol('NO_REPLY');
+
+/** Thrown by a handler to answer with a protocol error. */
+export class FakeProtocolError extends Error {
+    constructor(readonly code: number, message: string) {
+        super(message);
+    }
+}
+
+/**
+ * Answers one command. Return the `result` object, NO_REPLY, or throw FakeProtocolError.
+ */
+export type FakeHandler = (method: string, params: any, targetId: string) => any;
+
+export class FakeCDPServer {
+    port = 0;
+    targets: FakeTarget[] = [];
+    /** Lists the browser target in /json/version; its socket has the target id `browser` */
+    browserTarget = true;
+    /** Every command received, in order */
+    received: { targetId: string; method: string; params: any }[] = [];
+    handler: FakeHandler = (method, params) => {
+        if (method === 'Runtime.evaluate') return { result: { type: 'string', value: params.expression } };
+        return {};
+    };
+
+    private server = http.createServer((req, res) => this.onRequest(req, res));
+    private wss = new WebSocket.Server({ noServer: true });
+    private sockets: Map<string, Set<WebSocket>> = new Map();
+
+    /**
+     * Listens on a free port on 127.0.0.1 and resolves with it.
+     */
+    start(): Promise<number> {
+        this.server.on('upgrade', (req, socket, head) => {
+            const match = /^\/devtools\/(page|browser)\/(.+)$/.exec(req.url || '');
+            if (!match) return socket.destroy();
+            const targetId = match[1] === 'browser' ? 'browser' : decodeURIComponent(match[2]);
+            this.wss.handleUpgrade(req, socket, head, ws => this.onConnection(targetId, ws));
+        });
+        return new Promise(resolve => {
+            this.server.listen(0, '127.0.0.1', () => {
+                this.port = (this.server.address() as { port: number }).port;
+                resolve(this.port);
+            });
+        });
+    }
+
+    /**
+     * Sends an event to every socket connected to the target.
+     */
+    emit(targetId: string, method: string, params: object = {}) {
+        for (const ws of this.sockets.get(targetId) || []) ws.send(JSON.stringify({ method, params }));
+    }
+
+    /**
+     * Drops every socket connected to the target, as when a webview is closed.
+     */
+    drop(targetId: string) {
+        for (const ws of this.sockets.get(targetId) || []) ws.terminate();
+        this.sockets.delete(targetId);
+    }
+
+    connectionCount(targetId: string): number {
+        return this.sockets.get(targetId)?.size || 0;
+    }
+
+    stop(): Promise<void> {
+        for (const id of Array.from(this.sockets.keys())) this.drop(id);
+        this.wss.close();
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+
+    private onRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+        if (req.url === '/json/version') {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({
+                'Browser': 'Chrome/120.0.6099.291',
+                'Protocol-Version': '1.3',
+                'User-Agent': 'Mozilla/5.0 Code/1.90.0 Electron/28.2.8',
+                ...(this.browserTarget ? { webSocketDebuggerUrl: `ws://127.0.0.1:${this.port}/devtools/browser/fake` } : {})
+            }));
+            return;
+        }
+        if (req.url !== '/json/list' && req.url !== '/json') {
+            res.writeHead(404);
+            res.end();
+            return;
+        }
+        const list = this.targets.map(t => ({
+            id: t.id,
+            type: t.type,
+            title: t.title,
+            url: t.url,
+            ...(t.parentId ? { parentId: t.parentId } : {}),
+            ...(t.noSocket ? {} : { webSocketDebuggerUrl: `ws://127.0.0.1:${this.port}/devtools/page/${encodeURIComponent(t.id)}` })
+        }));
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(list));
+    }
+
+    private onConnection(targetId: string, ws: WebSocket) {
+        let set = this.sockets.get(targetId);
+        if (!set) this.sockets.set(targetId, set = new Set());
+        set.add(ws);
+        ws.on('close', () => set!.delete(ws));
+        ws.on('message', data => {
+            const msg = JSON.parse(data.toString());
+            this.received.push({ targetId, method: msg.method, params: msg.params });
+            let reply: object;
+            try {
+                const result = this.handler(msg.method, msg.params || {}, targetId);
+                if (result === NO_REPLY) return;
+                reply = { id: msg.id, result };
+            } catch (e: any) {
+                if (!(e instanceof FakeProtocolError)) throw e;
+                reply = { id: msg.id, error: { code: e.code, message: e.message } };
+            }
+            ws.send(JSON.stringify(reply));
+        });
+    }
+}
@@ -0,0 +1,118 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AcceptJournal, JournalEntry } from '../journal';
+
+const OPTIONS = { captureMs: 60000, maxEntries: 3 };
+
+describe('AcceptJournal', () => {
+    let dir: string;
+    let journal: AcceptJournal;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kayorama-journal-'));
+        journal = new AcceptJournal(dir, OPTIONS, () => { });
+    });
+
+    afterEach(() => {
+        journal.flush();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const snapshots = (entry: JournalEntry) => Object.fromEntries(entry.files.map(f =>
+        [f.path, [f.before && journal.readSnapshot(entry, f.before), f.after && journal.readSnapshot(entry, f.after)]]));
+
+    it('snapshots the files changed around an action', () => {
+        const since = Date.now();
+        journal.noteChange('/work/a.ts', 'old a', 'new a');
+        const entry = journal.record({ strategy: 'cdp', session: 'Chat' }, since);
+        journal.noteChange('/work/a.ts', 'new a', 'newer a');
+        journal.noteChange('/work/b.ts', null, 'created b');
+        journal.noteChange('/work/c.ts', undefined, 'changed on disk');
+        journal.noteChange('/work/d.ts', 'removed d', null);
+
+        assert.ok(journal.isCapturing);
+        assert.deepStrictEqual(snapshots(entry), {
+            '/work/a.ts': ['old a', 'newer a'],
+            '/work/b.ts': [null, 'created b'],
+            '/work/c.ts': [null, 'changed on disk'],
+            '/work/d.ts': ['removed d', null]
+        });
+        const flags = entry.files.map(f => [f.created, f.deleted, f.beforeUnknown]);
+        assert.deepStrictEqual(flags, [[false, false, false], [true, false, false], [false, false, true], [false, true, false]]);
+    });
+
+    it('leaves out changes made before the action', () => {
+        journal.noteChange('/work/a.ts', 'typed', 'typed more');
+        const entry = journal.record({ strategy: 'native', command: 'chatEditing.acceptAllFiles' }, Date.now() + 1);
+        assert.deepStrictEqual(entry.files, []);
+    });
+
+    it('keeps maxEntries actions and removes the snapshots of older ones', () => {
+        const entries = [1, 2, 3, 4].map(i => {
+            const entry = journal.record({ strategy: 'native', command: `accept${i}` });
+            journal.noteChange(`/work/${i}.ts`, 'before', 'after');
+            return entry;
+        });
+        assert.deepStrictEqual(journal.all.map(e => e.command), ['accept2', 'accept3', 'accept4']);
+        assert.strictEqual(fs.existsSync(path.join(dir, entries[0].id)), false);
+        assert.ok(fs.existsSync(journal.snapshotPath(entries[3], entries[3].files[0].after!)));
+    });
+
+    it('persists entries across instances', () => {
+        journal.record({ strategy: 'cdp', session: 'Chat', element: { tagName: 'BUTTON', text: 'Accept', label: null, title: null, score: 90, ruleId: 'builtin.accept' } });
+        journal.flush();
+        const reloaded = new AcceptJournal(dir, OPTIONS, () => { });
+        reloaded.load();
+        assert.strictEqual(reloaded.all[0].element?.text, 'Accept');
+    });
+
+    describe('restorePlan', () => {
+        let entry: JournalEntry;
+
+        beforeEach(() => {
+            entry = journal.record({ strategy: 'cdp', session: 'Chat' });
+            journal.noteChange('/work/edited.ts', 'before', 'after');
+            journal.noteChange('/work/created.ts', null, 'new file');
+            journal.noteChange('/work/deleted.ts', 'gone', null);
+            journal.noteChange('/work/unknown.ts', undefined, 'after');
+        });
+
+        const plan = (current: Record<string, string | null>) =>
+            journal.restorePlan(entry, p => current[p] ?? null).map(r => [path.basename(r.file.path), r.skip ?? r.content]);
+
+        it('restores the content before the action', () => {
+            assert.deepStrictEqual(plan({ '/work/edited.ts': 'after', '/work/created.ts': 'new file' }), [
+                ['edited.ts', 'before'],
+                ['created.ts', null],
+                ['deleted.ts', 'gone'],
+                ['unknown.ts', 'content before the action unknown']
+            ]);
+        });
+
+        it('leaves files changed since the action alone', () => {
+            assert.deepStrictEqual(plan({ '/work/edited.ts': 'after, then edited by hand', '/work/deleted.ts': 'recreated' }), [
+                ['edited.ts', 'changed since the action'],
+                ['created.ts', 'changed since the action'],
+                ['deleted.ts', 'changed since the action'],
+                ['unknown.ts', 'content before the action unknown']
+            ]);
+        });
+
+        it('reports missing snapshots', () => {
+            fs.rmSync(journal.snapshotPath(entry, entry.files[0].before!));
+            const [edited] = journal.restorePlan(entry, () => 'after');
+            assert.ok(edited.skip?.includes('ENOENT'));
+        });
+    });
+
+    it('undoes the latest actions first', () => {
+        const first = journal.record({ strategy: 'native', command: 'first' });
+        const second = journal.record({ strategy: 'native', command: 'second' });
+        assert.deepStrictEqual(journal.entriesFrom(first), [second, first]);
+        journal.markUndone(second);
+        assert.strictEqual(journal.lastUndoable(), first);
+        assert.deepStrictEqual(journal.entriesFrom(first), [first]);
+    });
+});
@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_LOGGER_OPTIONS, Logger, resolveLogFile } from '../logger';
+
+describe('Logger', () => {
+    let dir: string;
+    let lines: string[];
+    let logger: Logger;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kayorama-log-'));
+        lines = [];
+        logger = new Logger(line => lines.push(line));
+    });
+
+    afterEach(() => {
+        logger.flushSync();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const read = (file: string) => fs.readFileSync(file, 'utf8').trim().split('\n').map(l => JSON.parse(l));
+
+    it('filters by level and splits off the category', () => {
+        logger.configure({ ...DEFAULT_LOGGER_OPTIONS, level: 'warn' });
+        logger.log('info', '[CLICKED] Accept all');
+        logger.log('warn', '[RULE ERROR] rules[0]: bad regex');
+        logger.log('error', 'no category');
+        assert.strictEqual(lines.length, 2);
+        assert.match(lines[0], /^\[\d\d:\d\d:\d\d\.\d{3}\] WARN \[RULE ERROR\] rules\[0\]: bad regex$/);
+        assert.deepStrictEqual(logger.recent().map(e => [e.level, e.category, e.message]), [
+            ['warn', 'RULE ERROR', 'rules[0]: bad regex'],
+            ['error', null, 'no category']
+        ]);
+    });
+
+    it('writes JSON Lines in order', async () => {
+        const file = path.join(dir, 'logs', 'kayorama.jsonl');
+        logger.configure({ ...DEFAULT_LOGGER_OPTIONS, file });
+        logger.log('info', '[A] one');
+        logger.log('info', '[B] two');
+        await logger.flush();
+        logger.log('info', '[C] three');
+        await logger.flush();
+        assert.deepStrictEqual(read(file).map(e => e.category), ['A', 'B', 'C']);
+    });
+
+    it('rotates by size and keeps maxFiles old files', async () => {
+        const file = path.join(dir, 'kayorama.jsonl');
+        logger.configure({ level: 'info', file, maxBytes: 200, maxFiles: 2 });
+        for (let i = 0; i < 12; i++) {
+            logger.log('info', `[N] entry ${i} ${'x'.repeat(40)}`);
+            await logger.flush();
+        }
+        assert.deepStrictEqual(fs.readdirSync(dir).sort(), ['kayorama.jsonl', 'kayorama.jsonl.1', 'kayorama.jsonl.2']);
+        assert.ok(fs.statSync(file).size <= 200);
+        const newest = read(file).map(e => e.message);
+        assert.ok(newest[newest.length - 1].startsWith('entry 11 '));
+    });
+});
+
+describe('resolveLogFile', () => {
+    const folder = path.resolve('/work/repo');
+
+    it('keeps workspace paths inside the folder', () => {
+        assert.strictEqual(resolveLogFile('.vscode/kayorama.jsonl', false, folder), path.join(folder, '.vscode', 'kayorama.jsonl'));
+        assert.strictEqual(resolveLogFile('../../.bashrc', false, folder), null);
+        assert.strictEqual(resolveLogFile('logs/../..', false, folder), null);
+        assert.strictEqual(resolveLogFile('.', false, folder), null);
+    });
+
+    it('takes absolute paths from user settings only', () => {
+        const absolute = path.resolve('/home/me/kayorama.jsonl');
+        assert.strictEqual(resolveLogFile(absolute, true, folder), absolute);
+        assert.strictEqual(resolveLogFile(absolute, false, folder), null);
+    });
+
+    it('needs a folder for relative paths', () => {
+        assert.strictEqual(resolveLogFile('kayorama.jsonl', true, null), null);
+    });
+});
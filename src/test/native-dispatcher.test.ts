@@ -0,0 +1,25 @@
+import * as assert from 'assert';
+import { NativeCommand, NativeDispatcher, PendingSignal } from '../native-dispatcher';
+
+const always: NativeCommand = { command: 'editor.action.inlineSuggest.commit', when: ['always'] };
+const gated: NativeCommand = { command: 'chatEditing.acceptAllFiles', when: ['chatEditing'] };
+
+describe('NativeDispatcher', () => {
+    const dispatcher = new NativeDispatcher(() => Promise.resolve(), () => { });
+    const plan = (...signals: PendingSignal[]) => dispatcher.plan([always, gated], new Set(signals)).map(c => c.command);
+
+    it('runs always commands without a pending signal', () => {
+        assert.deepStrictEqual(plan(), [always.command]);
+    });
+
+    it('runs gated commands only while their signal is pending', () => {
+        assert.deepStrictEqual(plan('chatEditing'), [always.command, gated.command]);
+        assert.deepStrictEqual(plan('terminal'), [always.command]);
+    });
+
+    it('skips commands that are not registered', () => {
+        const limited = new NativeDispatcher(() => Promise.resolve(), () => { });
+        limited.setAvailableCommands([gated.command]);
+        assert.deepStrictEqual(limited.plan([always, gated], new Set<PendingSignal>(['chatEditing'])), [gated]);
+    });
+});
@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { discoverEndpoints, parsePortRanges, readDevToolsActivePort } from '../port-discovery';
+import { FakeCDPServer } from './fake-cdp-server';
+
+describe('port discovery', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kayorama-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('parses port ranges', () => {
+        const errors: string[] = [];
+        assert.deepStrictEqual(parsePortRanges('9000-9002, 9222,', errors), [[9000, 9002], [9222, 9222]]);
+        assert.deepStrictEqual(errors, []);
+        assert.deepStrictEqual(parsePortRanges('9010-9000, abc, 70000', errors), []);
+        assert.strictEqual(errors.length, 3);
+    });
+
+    it('reads DevToolsActivePort', () => {
+        assert.strictEqual(readDevToolsActivePort([dir]), null);
+        fs.writeFileSync(path.join(dir, 'DevToolsActivePort'), '53117\n/devtools/browser/0b6b\n');
+        assert.strictEqual(readDevToolsActivePort([path.join(dir, 'missing'), dir]), 53117);
+    });
+
+    describe('discoverEndpoints', () => {
+        let server: FakeCDPServer;
+        let other: http.Server;
+        let otherPort: number;
+
+        beforeEach(async () => {
+            server = new FakeCDPServer();
+            await server.start();
+            // Something that is not a DevTools endpoint
+            other = http.createServer((req, res) => { res.writeHead(404); res.end('not found'); });
+            await new Promise<void>(resolve => other.listen(0, '127.0.0.1', () => resolve()));
+            otherPort = (other.address() as { port: number }).port;
+        });
+
+        afterEach(async () => {
+            await server.stop();
+            await new Promise(resolve => other.close(resolve));
+        });
+
+        const options = (overrides: object) => ({ host: '127.0.0.1', configuredPort: 0, ranges: [], userDataDirs: [], timeoutMs: 300, ...overrides });
+
+        it('prefers DevToolsActivePort', async () => {
+            fs.writeFileSync(path.join(dir, 'DevToolsActivePort'), `${server.port}\n/devtools/browser/x\n`);
+            const endpoints = await discoverEndpoints(options({ userDataDirs: [dir], configuredPort: otherPort }));
+            assert.deepStrictEqual(endpoints.map(e => [e.port, e.source]), [[server.port, 'DevToolsActivePort']]);
+            assert.strictEqual(endpoints[0].browser, 'Chrome/120.0.6099.291');
+        });
+
+        it('finds endpoints in a port range and skips other servers', async () => {
+            const endpoints = await discoverEndpoints(options({ ranges: [[otherPort, otherPort], [server.port, server.port]] }));
+            assert.deepStrictEqual(endpoints.map(e => [e.port, e.source]), [[server.port, 'range']]);
+        });
+
+        it('checks the configured port', async () => {
+            const endpoints = await discoverEndpoints(options({ configuredPort: server.port, ranges: [[server.port, server.port]] }));
+            assert.deepStrictEqual(endpoints.map(e => [e.port, e.source]), [[server.port, 'setting']]);
+        });
+
+        it('returns nothing when no endpoint answers', async () => {
+            assert.deepStrictEqual(await discoverEndpoints(options({ configuredPort: otherPort })), []);
+        });
+    });
+});
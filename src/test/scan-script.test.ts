@@ -0,0 +1,262 @@
+import * as assert from 'assert';
+import { categoryRules, parseCategoryConfig } from '../action-categories';
+import { loadRules } from '../rules';
+import {
+    CANDIDATE_DECLINED_SCRIPT, CLEAR_CONFIRM_MARK_SCRIPT, CLICK_CANDIDATE_SCRIPT, CONFIRMED_CANDIDATE_SCRIPT, CONFIRM_MARK_SCRIPT, CandidateDetails,
+    DECLINE_CANDIDATE_SCRIPT, DEFAULT_COMMAND_SELECTORS, OBSERVER_BINDING, buildClickScript, buildObserverScript, buildWindowOwnershipScript,
+    isCandidateDetails
+} from '../scan-script';
+import { attachShadow, createFixture, fillFrame } from './dom-fixture';
+
+const OPTIONS = { commandSelectors: DEFAULT_COMMAND_SELECTORS };
+const BUILTIN = loadRules([], true).rules;
+const SCRIPT = buildClickScript(BUILTIN, OPTIONS);
+
+function scan(body: string): CandidateDetails | null {
+    return createFixture(body).evaluate(SCRIPT);
+}
+
+describe('scan script (built-in rules)', () => {
+    it('picks the highest scoring button and reports the runner-ups', () => {
+        const result = scan('<button>Apply</button><button>Accept all</button><button>Accept</button>');
+        assert.ok(result);
+        assert.strictEqual(result.text, 'Accept all');
+        assert.strictEqual(result.score, 100);
+        assert.strictEqual(result.ruleId, 'builtin.text.accept-all');
+        assert.deepStrictEqual(result.runnerUps.map(r => r.text), ['Accept', 'Apply']);
+    });
+
+    it('matches aria-label and title keywords', () => {
+        const result = scan('<button aria-label="Accept"><span class="codicon"></span></button>');
+        assert.strictEqual(result?.ruleId, 'builtin.aria-label.keyword');
+        assert.strictEqual(result?.score, 95);
+    });
+
+    it('never picks blacklisted buttons', () => {
+        assert.strictEqual(scan('<button>Accept all and open chat</button>'), null);
+        assert.strictEqual(scan('<button aria-label="accept">Discard</button>'), null);
+        const result = scan('<button>Accept all in editor</button><button>Apply</button>');
+        assert.strictEqual(result?.text, 'Apply');
+    });
+
+    it('skips workbench chrome by class', () => {
+        assert.strictEqual(scan('<button class="tab">Accept</button>'), null);
+        assert.strictEqual(scan('<div class="statusbar-item" role="button">Accept all</div>'), null);
+    });
+
+    it('skips hidden elements', () => {
+        assert.strictEqual(scan('<button style="display:none">Accept all</button>'), null);
+        assert.strictEqual(scan('<div hidden><button>Accept all</button></div>'), null);
+        assert.strictEqual(scan('<button style="visibility:hidden">Accept all</button>'), null);
+        assert.strictEqual(scan('<button style="opacity:0">Accept all</button>'), null);
+    });
+
+    it('ignores buttons that are already accepting', () => {
+        assert.strictEqual(scan('<button>Accepting…</button>'), null);
+        assert.strictEqual(scan('<button aria-label="Accepting changes">Accept all</button>'), null);
+    });
+
+    it('requires a pointer cursor below the trusted score', () => {
+        assert.strictEqual(scan('<span>Accept</span>'), null);
+        assert.strictEqual(scan('<span style="cursor:pointer">Accept</span>')?.score, 80);
+        // Trusted score: clicked without a pointer cursor
+        assert.strictEqual(scan('<span>Accept all</span>')?.score, 100);
+    });
+
+    it('finds buttons in nested iframes', () => {
+        const fixture = createFixture('<button>Apply</button><iframe id="outer"></iframe>');
+        const outer = fillFrame(fixture.document.querySelector('iframe')!, '<div><iframe id="inner"></iframe></div>');
+        fillFrame(outer.querySelector('iframe')!, '<button>Accept all</button>');
+        const result: CandidateDetails = fixture.evaluate(SCRIPT);
+        assert.strictEqual(result.text, 'Accept all');
+        assert.strictEqual(result.runnerUps[0]?.text, 'Apply');
+    });
+
+    it('finds buttons in shadow roots', () => {
+        const fixture = createFixture('<div id="host"></div>');
+        const root = attachShadow(fixture.document.getElementById('host')!, '<div id="inner-host"></div>');
+        attachShadow(root.getElementById('inner-host')!, '<button>Accept</button>');
+        assert.strictEqual(fixture.evaluate(SCRIPT)?.text, 'Accept');
+    });
+
+    it('reports the proposed terminal command next to the button', () => {
+        const result = scan('<div class="terminal-step"><pre> npm test </pre><div><button>Accept</button></div></div>');
+        assert.strictEqual(result?.command, 'npm test');
+        assert.strictEqual(scan('<button>Accept</button>')?.command, null);
+    });
+
+    it('takes the command nearest to the button, not an earlier one in the transcript', () => {
+        const result = scan(`
+            <div class="chat-list">
+                <div class="terminal-step"><pre>rm -rf build</pre><span>Done</span></div>
+                <div class="terminal-step"><pre><code>npm test</code></pre><div><button>Accept</button></div></div>
+            </div>`);
+        assert.strictEqual(result?.command, 'npm test');
+        assert.strictEqual(result?.commandAmbiguous, false);
+    });
+
+    it('reports several commands equally near the button as ambiguous', () => {
+        const result = scan('<div class="terminal-step"><pre>npm test</pre><pre>git push --force</pre><button>Accept</button></div>');
+        assert.strictEqual(result?.command, null);
+        assert.strictEqual(result?.commandAmbiguous, true);
+        assert.strictEqual(scan('<div class="terminal-step"><pre>npm test</pre><pre>npm test</pre><button>Accept</button></div>')?.command, 'npm test');
+    });
+
+    it('reports the files of the pending edit with their diff stats', () => {
+        const result = scan(`
+            <div class="chat-editing-session">
+                <ul>
+                    <li role="listitem"><span class="monaco-icon-label" title="/work/app/src/index.ts">index.ts</span> <span>+12</span><span>-3</span></li>
+                    <li role="listitem"><span class="monaco-icon-label" title="/work/app/.env">.env</span></li>
+                    <li role="listitem"><span class="monaco-icon-label" title="Settings">Settings</span></li>
+                </ul>
+                <button>Accept all</button>
+            </div>
+            <div><span data-file-path="unrelated.ts"></span></div>`);
+        assert.deepStrictEqual(result?.files, [
+            { path: '/work/app/src/index.ts', added: 12, removed: 3 },
+            { path: '/work/app/.env', added: null, removed: null }
+        ]);
+        assert.deepStrictEqual(scan('<button>Accept</button>')?.files, []);
+    });
+
+    it('clicks only the stored candidate in the second step', () => {
+        const fixture = createFixture('<button id="apply">Apply</button><button id="accept">Accept all</button>');
+        const clicks: string[] = [];
+        fixture.document.querySelectorAll('button').forEach(b => b.addEventListener('click', () => clicks.push(b.id)));
+
+        assert.strictEqual(fixture.evaluate(CLICK_CANDIDATE_SCRIPT), false);
+        fixture.evaluate(SCRIPT);
+        assert.strictEqual(fixture.evaluate(CLICK_CANDIDATE_SCRIPT), true);
+        assert.deepStrictEqual(clicks, ['accept']);
+        // The candidate is consumed
+        assert.strictEqual(fixture.evaluate(CLICK_CANDIDATE_SCRIPT), false);
+    });
+
+    it('does not click a candidate that left the DOM', () => {
+        const fixture = createFixture('<button>Accept all</button>');
+        fixture.evaluate(SCRIPT);
+        fixture.document.querySelector('button')!.remove();
+        assert.strictEqual(fixture.evaluate(CLICK_CANDIDATE_SCRIPT), false);
+    });
+});
+
+describe('scan script (user rules)', () => {
+    it('applies user rules on top of the built-in ones', () => {
+        const { rules, errors } = loadRules([
+            { id: 'agent.continue', text: 'continue', ancestor: '.agent-panel', score: 85 }
+        ], true);
+        assert.deepStrictEqual(errors, []);
+        const script = buildClickScript(rules, OPTIONS);
+        assert.strictEqual(createFixture('<div class="agent-panel"><button>Continue</button></div>').evaluate(script)?.ruleId, 'agent.continue');
+        assert.strictEqual(createFixture('<div><button>Continue</button></div>').evaluate(script), null);
+    });
+
+    it('lets deny rules veto a match', () => {
+        const { rules } = loadRules([{ effect: 'deny', selector: '.danger' }], true);
+        const script = buildClickScript(rules, OPTIONS);
+        assert.strictEqual(createFixture('<button class="danger">Accept all</button>').evaluate(script), null);
+    });
+
+    it('uses only the user rules when built-ins are off', () => {
+        const { rules } = loadRules([{ text: 'ship it', score: 70 }], false);
+        const script = buildClickScript(rules, OPTIONS);
+        assert.strictEqual(createFixture('<button>Accept all</button>').evaluate(script), null);
+        assert.strictEqual(createFixture('<button>Ship it</button>').evaluate(script)?.score, 70);
+    });
+
+    it('keeps the blacklist for action category rules', () => {
+        const errors: string[] = [];
+        const config = parseCategoryConfig({ continue: { enabled: true, selectors: ['.agent-action'] } }, errors);
+        const script = buildClickScript(BUILTIN.concat(categoryRules(config, errors)), OPTIONS);
+        assert.deepStrictEqual(errors, []);
+        assert.strictEqual(createFixture('<button class="agent-action">Discard</button>').evaluate(script), null);
+        assert.strictEqual(createFixture('<button class="agent-action">Cancel</button>').evaluate(script), null);
+        assert.strictEqual(createFixture('<button class="agent-action">Proceed</button>').evaluate(script)?.category, 'continue');
+    });
+});
+
+describe('observer script', () => {
+    it('needs the CDP binding', () => {
+        const fixture = createFixture('');
+        assert.strictEqual(fixture.evaluate(buildObserverScript(BUILTIN, OPTIONS, 'k1')), 'no-binding');
+    });
+
+    it('reports buttons added after installation', async () => {
+        const fixture = createFixture('<div id="panel"></div>');
+        const reports: CandidateDetails[] = [];
+        fixture.window[OBSERVER_BINDING] = (payload: string) => reports.push(JSON.parse(payload));
+
+        assert.strictEqual(fixture.evaluate(buildObserverScript(BUILTIN, OPTIONS, 'k1')), 'installed');
+        assert.strictEqual(fixture.evaluate(buildObserverScript(BUILTIN, OPTIONS, 'k1')), 'current');
+        await new Promise(resolve => setTimeout(resolve, 250));
+        assert.strictEqual(reports.length, 0);
+
+        fixture.document.getElementById('panel')!.innerHTML = '<button>Accept all</button>';
+        await new Promise(resolve => setTimeout(resolve, 250));
+        assert.strictEqual(reports.length, 1);
+        assert.strictEqual(reports[0].text, 'Accept all');
+        assert.ok(isCandidateDetails(reports[0]));
+
+        fixture.evaluate('window.__kayoramaObserver.disconnect()');
+    });
+
+    it('rejects reports of another shape', () => {
+        const reported = scan('<button>Accept all</button>');
+        assert.ok(isCandidateDetails(reported));
+        assert.strictEqual(isCandidateDetails(null), false);
+        assert.strictEqual(isCandidateDetails({ text: 'Accept all' }), false);
+        assert.strictEqual(isCandidateDetails({ ...reported, text: 42 }), false);
+        assert.strictEqual(isCandidateDetails({ ...reported, runnerUps: undefined }), false);
+        assert.strictEqual(isCandidateDetails({ ...reported, category: 'delete' }), false);
+        assert.strictEqual(isCandidateDetails({ ...reported, category: 'toString' }), false);
+    });
+});
+
+describe('confirm scripts', () => {
+    it('outlines the candidate and confirms it only if it is still the candidate', () => {
+        const fixture = createFixture('<button id="apply">Apply</button><button id="accept">Accept all</button>');
+        fixture.evaluate(SCRIPT);
+        assert.strictEqual(fixture.evaluate(CONFIRM_MARK_SCRIPT), true);
+        const accept = fixture.document.getElementById('accept')!;
+        assert.strictEqual(accept.style.outline, '2px solid #3794FF');
+        assert.strictEqual(fixture.evaluate(CONFIRMED_CANDIDATE_SCRIPT), true);
+
+        // A rescan during the countdown picked another button
+        accept.remove();
+        fixture.evaluate(SCRIPT);
+        assert.strictEqual(fixture.evaluate(CONFIRMED_CANDIDATE_SCRIPT), false);
+        assert.strictEqual(fixture.evaluate(CLEAR_CONFIRM_MARK_SCRIPT), true);
+        assert.strictEqual(accept.style.outline, '');
+    });
+
+    it('remembers declined candidates while they stay in the page', () => {
+        const fixture = createFixture('<button>Accept all</button>');
+        fixture.evaluate(SCRIPT);
+        assert.strictEqual(fixture.evaluate(CANDIDATE_DECLINED_SCRIPT), false);
+        assert.strictEqual(fixture.evaluate(DECLINE_CANDIDATE_SCRIPT), true);
+        fixture.evaluate(SCRIPT);
+        assert.strictEqual(fixture.evaluate(CANDIDATE_DECLINED_SCRIPT), true);
+
+        // The next turn renders a new button
+        fixture.document.querySelector('button')!.replaceWith(fixture.document.createElement('button'));
+        fixture.document.querySelector('button')!.textContent = 'Accept all';
+        fixture.evaluate(SCRIPT);
+        assert.strictEqual(fixture.evaluate(CANDIDATE_DECLINED_SCRIPT), false);
+    });
+});
+
+describe('window ownership script', () => {
+    const page = `
+        <div class="statusbar"><div class="statusbar-item" aria-label="Kayorama Autopilot kayorama-abc123"></div></div>
+        <iframe class="webview" src="about:blank?id=4f1c2e&origin=x"></iframe>
+        <iframe class="webview" src="about:blank?origin=y"></iframe>`;
+
+    it('recognizes its own window and lists the embedded webviews', () => {
+        assert.deepStrictEqual(createFixture(page).evaluate(buildWindowOwnershipScript('kayorama-abc123')), { own: true, webviewIds: ['4f1c2e'] });
+    });
+
+    it('rejects windows of other extension instances', () => {
+        assert.deepStrictEqual(createFixture(page).evaluate(buildWindowOwnershipScript('kayorama-zzz999')), { own: false, webviewIds: [] });
+    });
+});
@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_STATS_OPTIONS, StatsEvent, StatsStore, summarize, toCsv } from '../stats';
+
+const HOUR = 3600000;
+const DAY = 24 * HOUR;
+
+function event(kind: StatsEvent['kind'], time: number, fields: Partial<StatsEvent> = {}): StatsEvent {
+    return { time, kind, strategy: 'cdp', session: 'Chat', category: null, ruleId: null, score: null, text: null, command: null, reason: null, ...fields };
+}
+
+describe('StatsStore', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kayorama-stats-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('persists events across instances', () => {
+        const first = new StatsStore(dir, DEFAULT_STATS_OPTIONS, () => { });
+        first.record(event('accept', Date.now(), { text: 'Accept all' }));
+        first.flush();
+
+        const second = new StatsStore(dir, DEFAULT_STATS_OPTIONS, () => { });
+        second.load();
+        assert.deepStrictEqual(second.all.map(e => e.text), ['Accept all']);
+    });
+
+    it('drops expired and malformed lines on load', () => {
+        const now = Date.now();
+        const lines = [JSON.stringify(event('accept', now - 10 * DAY)), 'not json', JSON.stringify(event('block', now))];
+        fs.writeFileSync(path.join(dir, 'stats.jsonl'), lines.join('\n') + '\n');
+
+        const store = new StatsStore(dir, { retentionDays: 7, maxEvents: 100 }, () => { });
+        store.load();
+        assert.deepStrictEqual(store.all.map(e => e.kind), ['block']);
+        assert.strictEqual(fs.readFileSync(path.join(dir, 'stats.jsonl'), 'utf8').trim().split('\n').length, 1);
+    });
+
+    it('notifies listeners', () => {
+        const store = new StatsStore(dir, DEFAULT_STATS_OPTIONS, () => { });
+        let calls = 0;
+        const unsubscribe = store.onChange(() => calls++);
+        store.record(event('connect', Date.now()));
+        unsubscribe();
+        store.record(event('disconnect', Date.now()));
+        store.flush();
+        assert.strictEqual(calls, 1);
+    });
+});
+
+describe('summarize', () => {
+    const now = Date.UTC(2026, 0, 10, 12, 30);
+    const events = [
+        event('accept', now - 30 * DAY, { ruleId: 'old' }),
+        event('accept', now - 2 * HOUR, { ruleId: 'accept-all', score: 90, text: 'Accept all', category: 'accept' }),
+        event('accept', now - HOUR, { ruleId: 'accept-all', score: 95, text: ' ACCEPT ALL' }),
+        event('accept', now - HOUR, { strategy: 'native', session: 'Native Mode', command: 'editor.action.inlineSuggest.commit' }),
+        event('block', now - HOUR, { reason: 'edit policy: protected path' }),
+        event('skip', now, { reason: 'cancelled in confirm mode' }),
+        event('reconnect', now)
+    ];
+
+    it('counts the selected range by strategy, session, rule, text and score', () => {
+        const s = summarize(events, now - DAY, now);
+        assert.strictEqual(s.totals.accept, 3);
+        assert.strictEqual(s.totals.reconnect, 1);
+        assert.deepStrictEqual(s.bySession, [{ key: 'Chat', count: 2 }, { key: 'Native Mode', count: 1 }]);
+        assert.deepStrictEqual(s.byCategory, [{ key: 'accept', count: 3 }]);
+        assert.deepStrictEqual(s.byRule, [{ key: 'accept-all', count: 2 }, { key: 'editor.action.inlineSuggest.commit', count: 1 }]);
+        assert.deepStrictEqual(s.byText, [{ key: 'accept all', count: 2 }]);
+        assert.deepStrictEqual(s.byScore, [{ key: '90-99', count: 2 }]);
+        assert.deepStrictEqual(s.byReason.map(r => r.key), ['block: edit policy: protected path', 'skip: cancelled in confirm mode']);
+        assert.deepStrictEqual(s.connections.map(e => e.kind), ['reconnect']);
+    });
+
+    it('buckets the timeline hourly for short ranges and daily for long ones', () => {
+        const day = summarize(events, now - DAY, now);
+        assert.strictEqual(day.bucketMs, HOUR);
+        const lastHour = day.timeline.find(b => b.start === Math.floor((now - HOUR) / HOUR) * HOUR)!;
+        assert.deepStrictEqual([lastHour.cdp, lastHour.native, lastHour.blocked], [1, 1, 1]);
+
+        const all = summarize(events, null, now);
+        assert.strictEqual(all.bucketMs, DAY);
+        assert.strictEqual(all.timeline.reduce((n, b) => n + b.cdp + b.native, 0), 4);
+    });
+});
+
+describe('toCsv', () => {
+    it('quotes fields that need it', () => {
+        const csv = toCsv([event('accept', Date.UTC(2026, 0, 1), { text: 'Run "ls", then', score: 90 })]);
+        assert.strictEqual(csv, 'time,kind,strategy,session,category,ruleId,score,text,command,reason\n' +
+            '2026-01-01T00:00:00.000Z,accept,cdp,Chat,,,90,"Run ""ls"", then",,\n');
+    });
+});
@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import { compileRule } from '../rules';
+import { STOP_TEACH_SCRIPT, TEACH_BINDING, buildTeachScript } from '../scan-script';
+import { TeachDescriptor, isTeachDescriptor, proposeRules, stableAncestor, targetUrlPattern } from '../teach';
+import { createFixture } from './dom-fixture';
+
+const DESCRIPTOR: TeachDescriptor = {
+    tagName: 'BUTTON',
+    text: 'keep',
+    ariaLabel: 'keep changes',
+    title: '',
+    role: '',
+    classes: ['monaco-button'],
+    ancestors: [
+        { tagName: 'DIV', classes: ['is-active', 'css-1x2y3z'] },
+        { tagName: 'DIV', classes: ['chat-editing-session', 'focused'] },
+        { tagName: 'BODY', classes: [] }
+    ]
+};
+const CHAT_URL = 'vscode-webview://abc/index.html?id=1&extensionId=github.copilot-chat';
+
+describe('teach mode', () => {
+    it('anchors on the nearest ancestor with stable classes', () => {
+        assert.strictEqual(stableAncestor(DESCRIPTOR.ancestors), '.chat-editing-session');
+        assert.strictEqual(stableAncestor([{ tagName: 'DIV', classes: ['sc-bdVaJa', 'x'] }]), null);
+    });
+
+    it('scopes rules to the extension of a webview, or to the URL without its query', () => {
+        assert.strictEqual(targetUrlPattern(CHAT_URL), 'extensionId=github\\.copilot-chat');
+        assert.strictEqual(targetUrlPattern('vscode-file://vscode-app/workbench.html?x=1'), '^vscode-file://vscode-app/workbench\\.html');
+    });
+
+    it('proposes valid rules, most specific first', () => {
+        const proposals = proposeRules(DESCRIPTOR, 'allow', CHAT_URL);
+        assert.deepStrictEqual(proposals.map(p => p.label), [
+            'Button in its container, this target only',
+            'Button in its container',
+            'Button, this target only',
+            'Button anywhere',
+            'Button by aria-label'
+        ]);
+        assert.deepStrictEqual(proposals[0].rule, {
+            id: 'taught.allow.keep', score: 90, text: 'keep', ancestor: '.chat-editing-session', targetUrl: 'extensionId=github\\.copilot-chat'
+        });
+        assert.deepStrictEqual(proposals[4].rule, { id: 'taught.allow.keep', score: 90, ariaLabel: 'keep changes', ancestor: '.chat-editing-session' });
+        for (const p of proposals) {
+            const errors: string[] = [];
+            assert.ok(compileRule(p.rule, p.label, errors), errors.join());
+        }
+    });
+
+    it('proposes deny rules without a score', () => {
+        const [first] = proposeRules({ ...DESCRIPTOR, text: '', ariaLabel: '', title: 'run in terminal', ancestors: [] }, 'deny', CHAT_URL);
+        assert.deepStrictEqual(first.rule, { id: 'taught.deny.run-in-terminal', effect: 'deny', title: 'run in terminal', targetUrl: 'extensionId=github\\.copilot-chat' });
+    });
+
+    it('proposes nothing for a button without a name', () => {
+        assert.deepStrictEqual(proposeRules({ ...DESCRIPTOR, text: '', ariaLabel: '' }, 'allow', CHAT_URL), []);
+    });
+
+    it('checks the shape of reported descriptors', () => {
+        assert.ok(isTeachDescriptor(DESCRIPTOR));
+        assert.strictEqual(isTeachDescriptor(null), false);
+        assert.strictEqual(isTeachDescriptor({ cancelled: true }), false);
+        assert.strictEqual(isTeachDescriptor({ ...DESCRIPTOR, text: 7 }), false);
+        assert.strictEqual(isTeachDescriptor({ ...DESCRIPTOR, classes: 'btn' }), false);
+        assert.strictEqual(isTeachDescriptor({ ...DESCRIPTOR, ancestors: [null] }), false);
+        assert.strictEqual(isTeachDescriptor({ ...DESCRIPTOR, ancestors: [{ tagName: 'DIV', classes: [1] }] }), false);
+    });
+
+    describe('overlay script', () => {
+        it('needs the CDP binding', () => {
+            assert.strictEqual(createFixture('').evaluate(buildTeachScript('Click')), 'no-binding');
+        });
+
+        it('shows a banner, reports Escape as cancelled and cleans up', () => {
+            const fixture = createFixture('<button>Keep</button>');
+            const reports: any[] = [];
+            fixture.window[TEACH_BINDING] = (payload: string) => reports.push(JSON.parse(payload));
+
+            assert.strictEqual(fixture.evaluate(buildTeachScript('Click the button')), 'installed');
+            assert.strictEqual(fixture.document.body.lastElementChild?.textContent, 'Click the button');
+
+            fixture.document.dispatchEvent(new fixture.window.KeyboardEvent('keydown', { key: 'Escape' }));
+            assert.deepStrictEqual(reports, [{ cancelled: true }]);
+            assert.strictEqual(fixture.document.body.children.length, 1);
+            assert.strictEqual(fixture.evaluate(STOP_TEACH_SCRIPT), false);
+        });
+
+        it('ignores synthetic clicks', () => {
+            const fixture = createFixture('<button>Keep</button>');
+            let clicked = 0;
+            fixture.window[TEACH_BINDING] = () => assert.fail('reported a synthetic click');
+            fixture.document.querySelector('button')!.addEventListener('click', () => clicked++);
+            fixture.evaluate(buildTeachScript('Click'));
+            fixture.document.querySelector('button')!.click();
+            assert.strictEqual(clicked, 1);
+            assert.strictEqual(fixture.evaluate(STOP_TEACH_SCRIPT), true);
+        });
+    });
+});
@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { formatRemaining, restoreSession, sessionEndFor } from '../timed-session';
+
+describe('timed sessions', () => {
+    const now = 1_700_000_000_000;
+
+    it('ends sessions by timer, agent task or hand', () => {
+        assert.deepStrictEqual(sessionEndFor({ minutes: 15 }, now), { kind: 'timer', until: now + 15 * 60000 });
+        assert.deepStrictEqual(sessionEndFor({ untilTaskDone: true }, now), { kind: 'taskDone' });
+        assert.deepStrictEqual(sessionEndFor({ acceptMode: 'confirm' }, now), { kind: 'manual' });
+    });
+
+    it('restores saved sessions that have not run out', () => {
+        assert.deepStrictEqual(restoreSession({ options: { acceptMode: 'confirm' }, end: { kind: 'timer', until: now + 1000 } }, now),
+            { options: { acceptMode: 'confirm' }, end: { kind: 'timer', until: now + 1000 } });
+        assert.deepStrictEqual(restoreSession({ end: { kind: 'taskDone' } }, now), { options: {}, end: { kind: 'taskDone' } });
+        assert.strictEqual(restoreSession({ options: {}, end: { kind: 'timer', until: now - 1 } }, now), null);
+    });
+
+    it('ignores malformed state', () => {
+        assert.strictEqual(restoreSession(undefined, now), null);
+        assert.strictEqual(restoreSession({ options: {} }, now), null);
+        assert.strictEqual(restoreSession({ options: {}, end: { kind: 'forever' } }, now), null);
+        // Invalid overrides are dropped, the session is kept
+        assert.deepStrictEqual(restoreSession({ options: { acceptMode: 'off' }, end: { kind: 'manual' } }, now), { options: {}, end: { kind: 'manual' } });
+    });
+
+    it('formats the remaining time', () => {
+        assert.strictEqual(formatRemaining(14 * 60000 + 32500), '14:33');
+        assert.strictEqual(formatRemaining(5000), '0:05');
+        assert.strictEqual(formatRemaining(3600000 + 61000), '1:01:01');
+        assert.strictEqual(formatRemaining(-10), '0:00');
+    });
+});
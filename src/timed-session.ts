@@ -0,0 +1,58 @@
+import { EnableOptions, parseEnableOptions } from './api';
+
+/**
+ * How an autopilot session ends: when switched off, at a set time, or once the agent has gone
+ * quiet (see TASK_QUIET_MS). Sessions are kept in workspaceState so a window reload resumes them.
+ */
+
+export type SessionEnd =
+    | { kind: 'manual' }
+    | { kind: 'timer'; until: number }
+    | { kind: 'taskDone' };
+
+export interface PersistedSession {
+    /** The acceptMode / shadow overrides the session was enabled with */
+    options: EnableOptions;
+    end: SessionEnd;
+}
+
+/** An agent task counts as finished after this long without candidates or agent edits */
+export const TASK_QUIET_MS = 120000;
+
+export const SESSION_STATE_KEY = 'kayorama.session';
+
+/**
+ * The end of a session enabled with `options` at `now`.
+ */
+export function sessionEndFor(options: EnableOptions, now: number): SessionEnd {
+    if (options.minutes) return { kind: 'timer', until: now + options.minutes * 60000 };
+    if (options.untilTaskDone) return { kind: 'taskDone' };
+    return { kind: 'manual' };
+}
+
+/**
+ * Reads a session saved by an earlier window. Returns null for anything malformed and for
+ * timed sessions that ran out while the window was closed.
+ */
+export function restoreSession(raw: unknown, now: number): PersistedSession | null {
+    if (typeof raw !== 'object' || raw === null) return null;
+    const { options, end } = raw as Partial<PersistedSession>;
+    if (typeof end !== 'object' || end === null) return null;
+    if (end.kind === 'timer') {
+        if (typeof end.until !== 'number' || end.until <= now) return null;
+    } else if (end.kind !== 'manual' && end.kind !== 'taskDone') {
+        return null;
+    }
+    return { options: parseEnableOptions(options, []), end };
+}
+
+/**
+ * Remaining time as `m:ss`, or `h:mm:ss` from an hour up.
+ */
+export function formatRemaining(ms: number): string {
+    const total = Math.max(0, Math.ceil(ms / 1000));
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const seconds = String(total % 60).padStart(2, '0');
+    return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}